@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import Link from "next/link";
+import type {
+  AnalyticsImportResult,
+  AnalyticsPlatform,
+  PerformanceDimension,
+  PerformanceGroup,
+  PerformanceReport,
+} from "@/lib/types";
+
+const dimensionLabels: Record<PerformanceDimension, string> = {
+  subreddit: "Subreddit",
+  timeframe: "Timeframe",
+  voiceProfile: "Voice Profile",
+  duration: "Duration",
+};
+
+const platformOptions: { value: AnalyticsPlatform | null; label: string }[] = [
+  { value: null, label: "All" },
+  { value: "youtube", label: "YouTube" },
+  { value: "tiktok", label: "TikTok" },
+];
+
+const numberFormat = new Intl.NumberFormat();
+
+export default function AnalyticsDashboard() {
+  const [platform, setPlatform] = useState<AnalyticsPlatform | null>(null);
+  const [report, setReport] = useState<PerformanceReport | null>(null);
+  const [imported, setImported] = useState<AnalyticsImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    const res = await fetch(`/api/analytics${platform ? `?platform=${platform}` : ""}`);
+    if (!res.ok) throw new Error(res.statusText);
+    return (await res.json()) as PerformanceReport;
+  }, [platform]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReport()
+      .then((next) => {
+        if (!cancelled) setReport(next);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [loadReport]);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/analytics/import", {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: await file.text(),
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      setImported((await res.json()) as AnalyticsImportResult);
+      setReport(await loadReport());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <main className="mx-auto w-full max-w-6xl space-y-8 px-6 py-12">
+        <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div className="space-y-2">
+            <p className="text-sm uppercase tracking-[0.4rem] text-blue-300">Feedback Loop</p>
+            <h1 className="text-3xl font-semibold">Channel Performance</h1>
+            <p className="text-sm text-slate-300">
+              Import analytics exports to see which settings your best videos were made with.
+            </p>
+          </div>
+          <Link href="/" className="text-sm font-medium text-blue-300 hover:text-blue-200">
+            ← Back to the workflow
+          </Link>
+        </header>
+
+        <section className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+          <h2 className="text-lg font-semibold">Import an Export</h2>
+          <p className="text-sm text-slate-300">
+            Upload a YouTube Studio or TikTok Studio CSV. Videos are matched to stories by title,
+            or by a <code className="text-blue-200">ref:&lt;story id&gt;</code> tag in the title
+            or description.
+          </p>
+          <label className="flex cursor-pointer items-center justify-center rounded-2xl border border-dashed border-slate-700 bg-slate-950/40 px-4 py-6 text-sm text-slate-300 transition hover:border-blue-400">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              disabled={isImporting}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) void handleImport(file);
+                event.target.value = "";
+              }}
+            />
+            {isImporting ? "Importing…" : "Choose a CSV file"}
+          </label>
+          {imported && (
+            <div className="space-y-1 text-xs text-slate-300">
+              <p>
+                {imported.platform === "youtube" ? "YouTube" : "TikTok"}: matched {imported.matched}{" "}
+                of {imported.rows} videos.
+              </p>
+              {imported.unmatched.length > 0 && (
+                <details>
+                  <summary className="cursor-pointer text-amber-200">
+                    {imported.unmatched.length} videos matched no stored story
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {imported.unmatched.map((row) => (
+                      <li key={row.row}>
+                        Row {row.row}: {row.title}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+          {error && (
+            <div className="rounded-2xl border border-red-400/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold">
+              Breakdown{report ? ` · ${report.videos} videos` : ""}
+            </h2>
+            <div className="flex gap-2">
+              {platformOptions.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setPlatform(option.value)}
+                  className={clsx(
+                    "rounded-full border px-3 py-1 text-xs font-semibold transition",
+                    platform === option.value
+                      ? "border-blue-400 bg-blue-500/30 text-blue-50"
+                      : "border-slate-700 text-slate-300 hover:border-blue-300",
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {report && report.videos === 0 ? (
+            <p className="rounded-2xl border border-slate-800 bg-slate-950/40 p-6 text-sm text-slate-400">
+              No performance data yet. Import an export to start.
+            </p>
+          ) : (
+            report && (
+              <>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {(Object.keys(dimensionLabels) as PerformanceDimension[]).map((dimension) => (
+                    <BreakdownTable
+                      key={dimension}
+                      title={dimensionLabels[dimension]}
+                      groups={report.breakdowns[dimension]}
+                    />
+                  ))}
+                </div>
+
+                <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-5">
+                  <h3 className="text-sm font-semibold uppercase tracking-[0.2rem] text-slate-300">
+                    Top Videos
+                  </h3>
+                  <ol className="space-y-2 text-sm">
+                    {report.topVideos.map((record) => (
+                      <li
+                        key={`${record.platform}-${record.runId}-${record.storyId}`}
+                        className="flex items-start justify-between gap-4 border-b border-slate-800 pb-2 last:border-0"
+                      >
+                        <div className="space-y-1">
+                          <p className="text-slate-100">{record.hook}</p>
+                          <p className="text-xs text-slate-400">
+                            r/{record.subreddit} · {record.settings.voiceProfile} ·{" "}
+                            {record.settings.duration}s · {record.settings.timeframe}
+                            {record.variantChoice &&
+                              ` · variant ranked #${record.variantChoice.rank}`}
+                          </p>
+                          <p className="text-xs text-slate-500">{record.keywords.join(", ")}</p>
+                        </div>
+                        <div className="shrink-0 text-right text-xs text-slate-300">
+                          <p className="font-mono text-sm text-slate-100">
+                            {numberFormat.format(record.views)} views
+                          </p>
+                          {record.retention !== null && <p>{record.retention}% retained</p>}
+                          <p>{numberFormat.format(record.likes)} likes</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </>
+            )
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+type BreakdownTableProps = {
+  title: string;
+  groups: PerformanceGroup[];
+};
+
+function BreakdownTable({ title, groups }: BreakdownTableProps) {
+  const best = groups[0]?.averageViews ?? 0;
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-5">
+      <h3 className="text-sm font-semibold uppercase tracking-[0.2rem] text-slate-300">{title}</h3>
+      <table className="w-full text-left text-xs text-slate-300">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="pb-2 font-medium" />
+            <th className="pb-2 font-medium">Videos</th>
+            <th className="pb-2 font-medium">Avg views</th>
+            <th className="pb-2 font-medium">Retention</th>
+            <th className="pb-2 font-medium">Like rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => (
+            <tr key={group.key} className="border-t border-slate-800">
+              <td className="py-2 pr-2">
+                <p className="text-slate-100">{group.key}</p>
+                <div
+                  className="mt-1 h-1 rounded-full bg-blue-500/60"
+                  style={{ width: `${best ? (group.averageViews / best) * 100 : 0}%` }}
+                />
+              </td>
+              <td className="py-2">{group.videos}</td>
+              <td className="py-2 font-mono">{numberFormat.format(group.averageViews)}</td>
+              <td className="py-2">
+                {group.averageRetention === null ? "—" : `${group.averageRetention}%`}
+              </td>
+              <td className="py-2">
+                {group.likeRate === null ? "—" : `${(group.likeRate * 100).toFixed(1)}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
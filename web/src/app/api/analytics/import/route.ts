@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ANALYTICS_PLATFORMS, importAnalytics } from "@/lib/analytics";
+import { authenticate } from "@/lib/auth";
+import { WorkflowError } from "@/lib/errors";
+import type { AnalyticsPlatform } from "@/lib/types";
+
+/** Largest export accepted; a channel's full history is a few hundred kilobytes. */
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Accepts a YouTube Studio or TikTok analytics CSV export as the request
+ * body. The platform is detected from the headers unless `?platform=` is set.
+ */
+export async function POST(request: Request) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const platform = new URL(request.url).searchParams.get("platform");
+  if (platform && !ANALYTICS_PLATFORMS.includes(platform as AnalyticsPlatform)) {
+    return NextResponse.json(
+      { error: `Unknown platform. Expected one of: ${ANALYTICS_PLATFORMS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  const csv = await request.text();
+  if (csv.length > MAX_CSV_BYTES) {
+    return NextResponse.json({ error: "The CSV file is larger than 5 MB." }, { status: 413 });
+  }
+
+  try {
+    const result = await importAnalytics(csv, platform as AnalyticsPlatform | null);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof WorkflowError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Analytics import failed", error);
+    return NextResponse.json(
+      {
+        error: "Analytics import failed.",
+        details:
+          error instanceof Error
+            ? { message: error.message }
+            : { message: "Unknown error" },
+      },
+      { status: 500 },
+    );
+  }
+}
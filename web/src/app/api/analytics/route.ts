@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { ANALYTICS_PLATFORMS, listPerformance, summarizePerformance } from "@/lib/analytics";
+import type { AnalyticsPlatform } from "@/lib/types";
+
+/** Imported video performance broken down by generation setting; `?platform=` narrows it. */
+export async function GET(request: Request) {
+  const platform = new URL(request.url).searchParams.get("platform");
+  if (platform && !ANALYTICS_PLATFORMS.includes(platform as AnalyticsPlatform)) {
+    return NextResponse.json(
+      { error: `Unknown platform. Expected one of: ${ANALYTICS_PLATFORMS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  const records = await listPerformance();
+  return NextResponse.json(
+    summarizePerformance(records, (platform as AnalyticsPlatform | null) ?? undefined),
+  );
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authenticate, claimRun } from "@/lib/auth";
+import { batchPlanSchema, MAX_BATCH_STORIES, publishSlots } from "@/lib/calendar";
+import { getRun } from "@/lib/history";
+import { enqueueWorkflowJob, waitForWorkflowJob } from "@/lib/jobs";
+import { parseWorkflowRequest } from "@/lib/request";
+
+/**
+ * Queues one run that fills a content calendar: a story for every publish slot
+ * in the plan. Batches always run as background jobs; poll /api/jobs/[id].
+ */
+export async function POST(request: Request) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const parsed = parseWorkflowRequest(json?.settings ?? {});
+  const plan = batchPlanSchema.safeParse(json?.plan ?? {});
+
+  if (!parsed.success || !plan.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid request payload",
+        details: {
+          settings: parsed.success ? undefined : parsed.error.flatten(),
+          plan: plan.success ? undefined : plan.error.flatten(),
+        },
+      },
+      { status: 400 },
+    );
+  }
+
+  const settings = { ...parsed.data, storyCount: publishSlots(plan.data).length };
+  const claim = await claimRun(auth.caller, settings.storyCount, "batch", {
+    storyLimit: MAX_BATCH_STORIES,
+  });
+  if (claim.response) return claim.response;
+
+  const job = await enqueueWorkflowJob(settings, plan.data);
+  void waitForWorkflowJob(job.id)
+    .then(async (done) => claim.finish(done?.runId ? await getRun(done.runId) : null))
+    .catch((error) => console.error(`Could not record usage for batch ${job.id}`, error));
+
+  return NextResponse.json(job, { status: 202, headers: claim.headers });
+}
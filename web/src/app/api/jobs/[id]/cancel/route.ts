@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { cancelWorkflowJob } from "@/lib/jobs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const job = await cancelWorkflowJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+  if (job.status === "done" || job.status === "failed") {
+    return NextResponse.json(
+      { error: `Job already ${job.status}.` },
+      { status: 409 },
+    );
+  }
+  return NextResponse.json(job, { status: 202 });
+}
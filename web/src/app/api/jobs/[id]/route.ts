@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getWorkflowJob } from "@/lib/jobs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const job = await getWorkflowJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authenticate, claimRun } from "@/lib/auth";
+import { getRun } from "@/lib/history";
+import { enqueueWorkflowJob, waitForWorkflowJob } from "@/lib/jobs";
+import { parseWorkflowRequest } from "@/lib/request";
+
+export async function POST(request: Request) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const parsed = parseWorkflowRequest(json ?? {});
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid request payload",
+        details: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const claim = await claimRun(auth.caller, parsed.data.storyCount, "jobs");
+  if (claim.response) return claim.response;
+
+  const job = await enqueueWorkflowJob(parsed.data);
+  // Usage is settled in the background once the job finishes, whatever its outcome.
+  void waitForWorkflowJob(job.id)
+    .then(async (done) => claim.finish(done?.runId ? await getRun(done.runId) : null))
+    .catch((error) => console.error(`Could not record usage for job ${job.id}`, error));
+
+  return NextResponse.json(job, { status: 202, headers: claim.headers });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { apiKeyUpdateSchema, deleteApiKey, getApiKey, updateApiKey } from "@/lib/api-keys";
+import { authenticateAdminToken } from "@/lib/auth";
+import { getUsage } from "@/lib/usage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** The key with today's usage and its most recent ledger entries. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authenticateAdminToken(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const key = await getApiKey(id);
+  if (!key) {
+    return NextResponse.json({ error: "API key not found." }, { status: 404 });
+  }
+  return NextResponse.json({ ...key, usage: await getUsage(id) });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authenticateAdminToken(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = apiKeyUpdateSchema.safeParse(json);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid API key payload", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const key = await updateApiKey(id, parsed.data);
+  if (!key) {
+    return NextResponse.json({ error: "API key not found." }, { status: 404 });
+  }
+  return NextResponse.json(key);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authenticateAdminToken(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deleteApiKey(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "API key not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { apiKeyInputSchema, createApiKey, listApiKeys } from "@/lib/api-keys";
+import { authenticateAdminToken } from "@/lib/auth";
+
+export async function GET(request: Request) {
+  const auth = await authenticateAdminToken(request);
+  if (auth.response) return auth.response;
+
+  return NextResponse.json({ keys: await listApiKeys() });
+}
+
+/** Creates a key; the response carries the secret, which is not retrievable afterwards. */
+export async function POST(request: Request) {
+  const auth = await authenticateAdminToken(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const parsed = apiKeyInputSchema.safeParse(json);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid API key payload", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { key, secret } = await createApiKey(parsed.data);
+  return NextResponse.json({ ...key, secret }, { status: 201 });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { deletePreset, getPreset, presetNameSchema, savePreset } from "@/lib/presets";
+import { parseWorkflowRequest } from "@/lib/request";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const preset = await getPreset(id);
+  if (!preset) {
+    return NextResponse.json({ error: "Preset not found." }, { status: 404 });
+  }
+  return NextResponse.json(preset);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const existing = await getPreset(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Preset not found." }, { status: 404 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const name = presetNameSchema.safeParse(json?.name ?? existing.name);
+  const settings = parseWorkflowRequest(json?.settings ?? existing.settings);
+
+  if (!name.success || !settings.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid preset payload",
+        details: {
+          name: name.success ? undefined : name.error.flatten(),
+          settings: settings.success ? undefined : settings.error.flatten(),
+        },
+      },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(await savePreset(name.data, settings.data, id));
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deletePreset(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Preset not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { listPresets, presetNameSchema, savePreset } from "@/lib/presets";
+import { parseWorkflowRequest } from "@/lib/request";
+
+export async function GET() {
+  return NextResponse.json({ presets: await listPresets() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const name = presetNameSchema.safeParse(json?.name);
+  const settings = parseWorkflowRequest(json?.settings ?? {});
+
+  if (!name.success || !settings.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid preset payload",
+        details: {
+          name: name.success ? undefined : name.error.flatten(),
+          settings: settings.success ? undefined : settings.error.flatten(),
+        },
+      },
+      { status: 400 },
+    );
+  }
+
+  const preset = await savePreset(name.data, settings.data);
+  return NextResponse.json(preset, { status: 201 });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getRenderJob } from "@/lib/render";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = await getRenderJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Render job not found." }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
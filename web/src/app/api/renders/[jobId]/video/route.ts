@@ -0,0 +1,54 @@
+import { createReadStream, promises as fs } from "node:fs";
+import { Readable } from "node:stream";
+import { NextResponse } from "next/server";
+import { getRenderJob, renderVideoFile } from "@/lib/render";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+/** Streams the file from disk so a video is never held in memory whole. */
+function fileBody(file: string, range?: { start: number; end: number }) {
+  return Readable.toWeb(createReadStream(file, range)) as ReadableStream<Uint8Array>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = await getRenderJob(jobId);
+  const file = renderVideoFile(jobId);
+  const stat = job?.status === "done" && file ? await fs.stat(file).catch(() => null) : null;
+
+  if (!file || !stat) {
+    return NextResponse.json({ error: "Video is not ready." }, { status: 404 });
+  }
+
+  const size = stat.size;
+  const headers = {
+    "Content-Type": "video/mp4",
+    "Accept-Ranges": "bytes",
+    "Content-Disposition": `inline; filename="${job?.storyId ?? jobId}.mp4"`,
+  };
+
+  // Browsers seek through <video> with byte ranges.
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get("range") ?? "");
+  if (range) {
+    const start = range[1] ? Number(range[1]) : Math.max(size - Number(range[2]), 0);
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+    if (start > end || start >= size) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${size}` },
+      });
+    }
+    return new NextResponse(fileBody(file, { start, end }), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${start}-${end}/${size}`,
+        "Content-Length": String(end - start + 1),
+      },
+    });
+  }
+
+  return new NextResponse(fileBody(file), {
+    headers: { ...headers, "Content-Length": String(size) },
+  });
+}
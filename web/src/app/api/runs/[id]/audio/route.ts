@@ -0,0 +1,78 @@
+import { promises as fs } from "node:fs";
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getRun, updateStory } from "@/lib/history";
+import {
+  applyStoryAudio,
+  renderStoryAudio,
+  storyAudioFile,
+  TtsUnavailableError,
+} from "@/lib/tts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const storyId = new URL(request.url).searchParams.get("story") ?? "";
+  const file = storyAudioFile(id, storyId);
+  const audio = file ? await fs.readFile(file).catch(() => null) : null;
+
+  if (!audio) {
+    return NextResponse.json({ error: "Audio has not been rendered for this story." }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": "audio/wav",
+      "Content-Length": String(audio.length),
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const run = await getRun(id);
+  const story = run?.stories.find((item) => item.id === json?.storyId);
+
+  if (!run || !story) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+
+  try {
+    const rendered = await renderStoryAudio(id, story, run.settings.voiceProfile);
+    // Synthesis takes a while; apply the result to the story as it is stored now.
+    const current = (await getRun(id))?.stories.find((item) => item.id === story.id);
+    if (!current) {
+      return NextResponse.json({ error: "Story not found." }, { status: 404 });
+    }
+    const updated = applyStoryAudio(current, rendered, run.settings);
+    if (!updated) {
+      return NextResponse.json(
+        { error: "The script changed while the audio was rendering. Render the audio again." },
+        { status: 409 },
+      );
+    }
+    await updateStory(id, updated);
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Audio rendering failed", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof TtsUnavailableError
+            ? error.message
+            : "Audio rendering failed.",
+        details:
+          error instanceof Error
+            ? { message: error.message }
+            : { message: "Unknown error" },
+      },
+      { status: error instanceof TtsUnavailableError ? 503 : 500 },
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { runBundle } from "@/lib/bundle";
+import { getRun } from "@/lib/history";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+
+  return new NextResponse(await runBundle(run), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="shorts-${run.id}.zip"`,
+    },
+  });
+}
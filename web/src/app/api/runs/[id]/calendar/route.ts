@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { toICalendar } from "@/lib/calendar";
+import { getRun } from "@/lib/history";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  if (!run.calendar) {
+    return NextResponse.json({ error: "This run was not generated as a batch." }, { status: 404 });
+  }
+
+  return new NextResponse(toICalendar(run), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="shorts-${run.calendar.startDate}.ics"`,
+    },
+  });
+}
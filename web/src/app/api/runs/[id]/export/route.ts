@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { isStoryExportFormat, storyExports, storySlug } from "@/lib/exports";
+import { getRun } from "@/lib/history";
+import { LOCALES, localizeStory } from "@/lib/translate";
+import type { Locale } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format");
+  const locale = searchParams.get("locale");
+
+  if (!isStoryExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Unknown export format. Expected one of: ${Object.keys(storyExports).join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  const run = await getRun(id);
+  const story = run?.stories.find((item) => item.id === searchParams.get("story"));
+  if (!story) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+
+  // English is the source language, so it needs no translation.
+  if (locale && locale !== "en") {
+    if (!LOCALES.includes(locale as Locale)) {
+      return NextResponse.json(
+        { error: `Unknown locale. Expected one of: en, ${LOCALES.join(", ")}.` },
+        { status: 400 },
+      );
+    }
+    if (!story.translations?.some((item) => item.locale === locale)) {
+      return NextResponse.json({ error: `Story has no ${locale} translation.` }, { status: 404 });
+    }
+  }
+
+  const exporter = storyExports[format];
+  const localized = locale && locale !== "en" ? localizeStory(story, locale as Locale) : story;
+  const suffix = localized === story ? "" : `.${locale}`;
+  return new NextResponse(exporter.render(localized), {
+    headers: {
+      "Content-Type": `${exporter.contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${storySlug(story)}${suffix}.${exporter.extension}"`,
+    },
+  });
+}
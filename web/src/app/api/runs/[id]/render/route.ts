@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { latestRenderJob, startRenderJob } from "@/lib/render";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const storyId = new URL(request.url).searchParams.get("story") ?? "";
+  const job = await latestRenderJob(id, storyId);
+  if (!job) {
+    return NextResponse.json({ error: "No render found for this story." }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const job = await startRenderJob(id, String(json?.storyId ?? ""));
+  if (!job) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+  return NextResponse.json(job, { status: 202 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { ContractError, enforceRunContract } from "@/lib/contract";
+import { deleteRun, getRun } from "@/lib/history";
+import { releaseRunPosts } from "@/lib/ledger";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  try {
+    return NextResponse.json(enforceRunContract(run));
+  } catch (error) {
+    if (!(error instanceof ContractError)) throw error;
+    console.error(`Stored run ${id} breaks the schema`, error.issues);
+    return NextResponse.json(
+      { error: "Stored run does not match the published schema.", details: { issues: error.issues } },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deleteRun(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  await releaseRunPosts(id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate, claimRun } from "@/lib/auth";
+import { reviewEditedStory } from "@/lib/compliance";
+import { getRun, updateStory } from "@/lib/history";
+import {
+  regenerateStoryPart,
+  regenerateTargetSchema,
+  RegenerationUnsupportedError,
+} from "@/lib/regenerate";
+import { storyEditSchema, validateStory } from "@/lib/story-validation";
+import { carryTranslations } from "@/lib/translate";
+import { sameVoiceovers } from "@/lib/tts";
+import type { Story } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string; storyId: string }> };
+
+const regenerateRequestSchema = z.object({
+  target: regenerateTargetSchema,
+  variant: z.number().int().min(0).default(1),
+  story: storyEditSchema.optional(),
+});
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id, storyId } = await params;
+  const run = await getRun(id);
+  const existing = run?.stories.find((item) => item.id === storyId);
+  if (!run || !existing) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+
+  const parsed = regenerateRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid regenerate request", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  // Unsaved edits from the editor are used as context and kept.
+  const base: Story = { ...existing, ...parsed.data.story };
+
+  const claim = await claimRun(auth.caller, 1, "regenerate");
+  if (claim.response) return claim.response;
+
+  try {
+    const regenerated = reviewEditedStory(
+      await regenerateStoryPart(base, parsed.data.target, run.settings, parsed.data.variant),
+      run.settings.compliance,
+    );
+    // Stored narration only survives when the script it reads is unchanged.
+    const next: Story = sameVoiceovers(regenerated, existing)
+      ? regenerated
+      : { ...regenerated, audio: undefined };
+    const story = carryTranslations(existing, {
+      ...next,
+      validation: validateStory(next, run.settings),
+    });
+    await updateStory(id, story);
+    await claim.finish({ id, stories: [story] });
+    return NextResponse.json(story, { headers: claim.headers });
+  } catch (error) {
+    await claim.finish(null);
+    console.error("Regeneration failed", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof RegenerationUnsupportedError
+            ? error.message
+            : "Regeneration failed.",
+        details:
+          error instanceof Error
+            ? { message: error.message }
+            : { message: "Unknown error" },
+      },
+      {
+        status:
+          error instanceof RegenerationUnsupportedError
+            ? 409
+            : error instanceof RangeError
+              ? 400
+              : 500,
+        headers: claim.headers,
+      },
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { reviewEditedStory } from "@/lib/compliance";
+import { getRun, updateStory } from "@/lib/history";
+import { storyEditSchema, validateStory } from "@/lib/story-validation";
+import { carryTranslations } from "@/lib/translate";
+import { sameVoiceovers } from "@/lib/tts";
+import type { Story } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string; storyId: string }> };
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id, storyId } = await params;
+  const run = await getRun(id);
+  const existing = run?.stories.find((item) => item.id === storyId);
+  if (!run || !existing) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = storyEditSchema.safeParse(json?.story);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid story", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const edited = reviewEditedStory({ ...existing, ...parsed.data }, run.settings.compliance);
+  const next: Story = {
+    ...edited,
+    audio: sameVoiceovers(edited, existing) ? existing.audio : undefined,
+  };
+  const story: Story = carryTranslations(existing, {
+    ...next,
+    validation: validateStory(next, run.settings),
+  });
+  await updateStory(id, story);
+  return NextResponse.json(story);
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { authenticate, claimRun } from "@/lib/auth";
+import { getRun, updateStory } from "@/lib/history";
+import { translateStory, TranslationUnavailableError } from "@/lib/translate";
+import type { Story } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ id: string; storyId: string }> };
+
+/** Re-translates one story into every locale of its run, replacing stale translations. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id, storyId } = await params;
+  const run = await getRun(id);
+  const existing = run?.stories.find((item) => item.id === storyId);
+  if (!run || !existing) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+  if (run.settings.locales.length === 0) {
+    return NextResponse.json({ error: "This run has no target locales." }, { status: 400 });
+  }
+
+  const claim = await claimRun(auth.caller, 1, "translate");
+  if (claim.response) return claim.response;
+
+  try {
+    const translations = [];
+    for (const locale of run.settings.locales) {
+      translations.push(await translateStory(existing, locale, run.settings));
+    }
+    const story: Story = { ...existing, translations };
+    await updateStory(id, story);
+    await claim.finish({ id, stories: [story] });
+    return NextResponse.json(story, { headers: claim.headers });
+  } catch (error) {
+    await claim.finish(null);
+    console.error("Translation failed", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof TranslationUnavailableError
+            ? error.message
+            : "Translation failed.",
+        details:
+          error instanceof Error
+            ? { message: error.message }
+            : { message: "Unknown error" },
+      },
+      {
+        status: error instanceof TranslationUnavailableError ? 503 : 500,
+        headers: claim.headers,
+      },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/lib/auth";
+import { reviewEditedStory } from "@/lib/compliance";
+import { getRun, updateStory } from "@/lib/history";
+import { validateStory } from "@/lib/story-validation";
+import { carryTranslations } from "@/lib/translate";
+import type { Story } from "@/lib/types";
+import { promoteVariant } from "@/lib/variants";
+
+type RouteContext = { params: Promise<{ id: string; storyId: string }> };
+
+const promoteRequestSchema = z.object({ variantId: z.string().min(1) });
+
+/** Promotes a variant to the story's primary hook, title and thumbnail prompt. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const { id, storyId } = await params;
+  const run = await getRun(id);
+  const existing = run?.stories.find((item) => item.id === storyId);
+  if (!run || !existing) {
+    return NextResponse.json({ error: "Story not found." }, { status: 404 });
+  }
+
+  const parsed = promoteRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid promote request", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  if (!existing.variants?.some((variant) => variant.id === parsed.data.variantId)) {
+    return NextResponse.json({ error: "Variant not found." }, { status: 404 });
+  }
+
+  const promoted = reviewEditedStory(
+    promoteVariant(existing, parsed.data.variantId),
+    run.settings.compliance,
+  );
+  const story: Story = carryTranslations(existing, {
+    ...promoted,
+    validation: validateStory(promoted, run.settings),
+  });
+  await updateStory(id, story);
+  return NextResponse.json(story);
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { listRuns } from "@/lib/history";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ runs: await listRuns() });
+  } catch (error) {
+    console.error("Listing runs failed", error);
+    return NextResponse.json({ error: "Could not load run history." }, { status: 500 });
+  }
+}
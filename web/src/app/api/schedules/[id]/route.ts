@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { authenticateAdmin } from "@/lib/auth";
+import {
+  deleteSchedule,
+  getSchedule,
+  scheduleUpdateSchema,
+  updateSchedule,
+} from "@/lib/schedules";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const schedule = await getSchedule(id);
+  if (!schedule) {
+    return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+  }
+  return NextResponse.json(schedule);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authenticateAdmin(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = scheduleUpdateSchema.safeParse(json);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid schedule payload", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const schedule = await updateSchedule(id, parsed.data);
+  if (!schedule) {
+    return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+  }
+  return NextResponse.json(schedule);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authenticateAdmin(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deleteSchedule(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authenticateAdmin } from "@/lib/auth";
+import { createSchedule, listSchedules, scheduleInputSchema } from "@/lib/schedules";
+
+export async function GET() {
+  return NextResponse.json({ schedules: await listSchedules() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authenticateAdmin(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const parsed = scheduleInputSchema.safeParse(json);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid schedule payload", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const schedule = await createSchedule(parsed.data);
+  return NextResponse.json(schedule, { status: 201 });
+}
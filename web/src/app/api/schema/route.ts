@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { SCHEMA_VERSION, storedRunSchema } from "@/lib/contract";
+import { toJsonSchema } from "@/lib/json-schema";
+
+/** Serves the JSON Schema for run payloads, as returned by /api/workflow and /api/runs/[id]. */
+export async function GET() {
+  return NextResponse.json(
+    {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: `/api/schema?version=${SCHEMA_VERSION}`,
+      title: "WorkflowRun",
+      description: `Shorts package produced by a workflow run, schema version ${SCHEMA_VERSION}.`,
+      ...toJsonSchema(storedRunSchema),
+    },
+    { headers: { "Cache-Control": "public, max-age=300" } },
+  );
+}
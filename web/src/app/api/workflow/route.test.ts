@@ -0,0 +1,408 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildStoriesFromPosts, draftOpening } from "@/lib/ai";
+import { DEFAULT_COMMENT_OPTIONS } from "@/lib/comments";
+import { parseRunPayload } from "@/lib/contract";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import { getRun, saveRun } from "@/lib/history";
+import { NDJSON_CONTENT_TYPE } from "@/lib/stream";
+import { voiceoverBudget } from "@/lib/story-validation";
+import type { StoredRun, WorkflowStreamEvent } from "@/lib/types";
+import { POST } from "./route";
+
+vi.mock("@/lib/ai", async () => {
+  const fake = await import("@/test/fake-ai");
+  return {
+    buildStoriesFromPosts: vi.fn(fake.buildStoriesFromPosts),
+    draftOpening: vi.fn(fake.draftOpening),
+  };
+});
+
+vi.mock("@/lib/history", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/history")>();
+  return { ...actual, saveRun: vi.fn(actual.saveRun) };
+});
+
+/** Matches the recorded r/AskReddit listing in fixtures/reddit/askreddit-week.json. */
+const validBody = {
+  subreddit: "AskReddit",
+  timeframe: "week",
+  storyCount: 2,
+  duration: 45,
+  voiceProfile: "narrator",
+  includeBroll: true,
+};
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return POST(
+    new Request("http://localhost/api/workflow", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+  );
+}
+
+async function readEvents(response: Response) {
+  const lines = (await response.text()).split("\n").filter(Boolean);
+  return lines.map((line) => JSON.parse(line) as WorkflowStreamEvent);
+}
+
+beforeEach(() => {
+  // Failed stories and failed runs are logged on purpose.
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("POST /api/workflow", () => {
+  it("returns a run in the published shape and saves it", async () => {
+    const response = await post(validBody);
+    expect(response.status).toBe(200);
+
+    const run = (await response.json()) as StoredRun;
+    expect(Object.keys(run).sort()).toEqual([
+      "generatedAt",
+      "id",
+      "notes",
+      "review",
+      "schemaVersion",
+      "selection",
+      "settings",
+      "stories",
+    ]);
+    expect(Object.keys(run.notes).sort()).toEqual([
+      "hashtags",
+      "platforms",
+      "postingChecklist",
+      "uploadCopy",
+    ]);
+    expect(parseRunPayload(run).issues).toEqual([]);
+
+    expect(run.settings).toMatchObject(validBody);
+    expect(run.stories.map((story) => story.id)).toEqual(["t3fx01", "t3fx02"]);
+    expect(run.selection).toMatchObject({ candidates: 6, skippedDuplicates: 0 });
+    expect(run.selection?.rejected.map((item) => item.postId)).toEqual([
+      "t3fx06",
+      "t3fx03",
+      "t3fx04",
+      "t3fx05",
+    ]);
+    expect(run.review).toEqual({ ready: true, blockedStories: 0, warnings: expect.any(Number) });
+    expect(run.notes.uploadCopy).toContain("Adapted from posts on r/AskReddit.");
+    for (const story of run.stories) {
+      expect(story.provider).toBe("llm");
+      expect(story.validation?.status).not.toBe("flagged");
+      expect(story.variantChoice).toMatchObject({ variantId: "v0", chosenBy: "generator" });
+    }
+
+    expect(await getRun(run.id)).toEqual(run);
+  });
+
+  it("tiles every story's beats across the requested duration", async () => {
+    const response = await post({ ...validBody, duration: 35, voiceProfile: "dramatic" });
+    const run = (await response.json()) as StoredRun;
+
+    for (const story of run.stories) {
+      expect(story.beats.length).toBeGreaterThan(0);
+      expect(story.beats[0].timestamp).toBe(0);
+      story.beats.forEach((beat, index) => {
+        const previous = story.beats[index - 1];
+        if (previous) expect(beat.timestamp).toBe(previous.timestamp + previous.duration);
+        expect(beat.duration).toBeGreaterThan(0);
+        expect(beat.captions.length).toBeGreaterThan(0);
+        expect(beat.voiceover.split(/\s+/).length).toBeLessThanOrEqual(
+          voiceoverBudget(beat.duration, run.settings),
+        );
+      });
+      const last = story.beats[story.beats.length - 1];
+      expect(last.timestamp + last.duration).toBe(35);
+    }
+  });
+
+  it("drafts variants as openings only, without rescripting the story", async () => {
+    const response = await post({ ...validBody, hookVariants: 2 });
+    const run = (await response.json()) as StoredRun;
+
+    expect(buildStoriesFromPosts).toHaveBeenCalledTimes(2);
+    expect(draftOpening).toHaveBeenCalledTimes(4);
+    for (const story of run.stories) {
+      expect(story.variants?.map((variant) => variant.title)).toHaveLength(3);
+      expect(new Set(story.variants?.map((variant) => variant.title)).size).toBe(3);
+    }
+  });
+
+  it("cites the recorded replies a story narrates", async () => {
+    const response = await post(validBody);
+    const run = (await response.json()) as StoredRun;
+
+    const cited = run.stories.flatMap((story) => story.beats.flatMap((beat) => beat.comment ?? []));
+    expect(cited.length).toBeGreaterThan(0);
+    for (const comment of cited) {
+      expect(comment.permalink).toMatch(/^\/r\/AskReddit\/comments\/t3fx02\//);
+    }
+  });
+
+  it("scripts title-only question threads from their replies", async () => {
+    const response = await post({ ...validBody, subreddit: "NoStupidQuestions", storyCount: 3 });
+    const run = (await response.json()) as StoredRun;
+
+    const question = run.stories.find((story) => story.id === "t3nq03");
+    const cited = question?.beats.flatMap((beat) => beat.comment ?? []) ?? [];
+    expect(cited.length).toBeGreaterThan(0);
+    expect(cited[0].permalink).toMatch(/^\/r\/NoStupidQuestions\/comments\/t3nq03\//);
+
+    const silent = await post({
+      ...validBody,
+      subreddit: "NoStupidQuestions",
+      storyCount: 3,
+      allowRepeats: true,
+      comments: { ...DEFAULT_COMMENT_OPTIONS, count: 0 },
+    });
+    const withoutReplies = (await silent.json()) as StoredRun;
+    expect(withoutReplies.stories.map((story) => story.id)).not.toContain("t3nq03");
+    expect(withoutReplies.selection?.rejected).toContainEqual(
+      expect.objectContaining({ postId: "t3nq03", reasons: ["has no body, and replies are turned off"] }),
+    );
+  });
+
+  describe("coerces form-style values before validation", () => {
+    it("accepts numbers and booleans sent as strings", async () => {
+      const response = await post({
+        ...validBody,
+        storyCount: "1",
+        duration: "30",
+        includeBroll: "on",
+      });
+      expect(response.status).toBe(200);
+
+      const run = (await response.json()) as StoredRun;
+      expect(run.settings).toMatchObject({ storyCount: 1, duration: 30, includeBroll: true });
+      expect(run.stories).toHaveLength(1);
+      expect(run.stories[0].beats.every((beat) => beat.brollPrompt)).toBe(true);
+    });
+
+    it("treats a missing or empty includeBroll as false", async () => {
+      const withoutBroll: Partial<typeof validBody> = { ...validBody, storyCount: 1 };
+      delete withoutBroll.includeBroll;
+      const response = await post(withoutBroll);
+
+      const run = (await response.json()) as StoredRun;
+      expect(run.settings.includeBroll).toBe(false);
+      expect(run.stories[0].beats.some((beat) => beat.brollPrompt)).toBe(false);
+
+      const empty = await post({ ...validBody, storyCount: 1, includeBroll: "" });
+      expect(((await empty.json()) as StoredRun).settings.includeBroll).toBe(false);
+    });
+
+    it("rejects a count that does not coerce to a number", async () => {
+      const response = await post({ ...validBody, storyCount: "two" });
+      expect(response.status).toBe(400);
+
+      const body = await response.json();
+      expect(Object.keys(body.details.fieldErrors)).toEqual(["storyCount"]);
+    });
+  });
+
+  describe("error responses", () => {
+    it("returns 400 with the flattened zod error for invalid settings", async () => {
+      const response = await post({ ...validBody, subreddit: "a", duration: 5 });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Invalid request payload",
+        details: {
+          formErrors: [],
+          fieldErrors: {
+            subreddit: [expect.any(String)],
+            duration: [expect.any(String)],
+          },
+        },
+      });
+    });
+
+    it("returns 400 when the body is not JSON", async () => {
+      const response = await post("subreddit=AskReddit");
+      expect(response.status).toBe(400);
+
+      const body = await response.json();
+      expect(body.error).toBe("Invalid request payload");
+      expect(body.details.fieldErrors).toHaveProperty("subreddit");
+    });
+
+    it("returns 404 when the subreddit has no posts", async () => {
+      const response = await post({ ...validBody, subreddit: "QuietCorner" });
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        error: "No posts found for the requested subreddit/timeframe.",
+      });
+      expect(buildStoriesFromPosts).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 when every post is already used or filtered out", async () => {
+      // Two stories fetch all six recorded posts; five pass the filters, one is stickied.
+      expect((await post({ ...validBody, storyCount: 5 })).status).toBe(200);
+
+      const response = await post(validBody);
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        error:
+          "None of the 6 fetched posts could be used: 5 were already used in earlier packages and 1 failed the content filters.",
+      });
+    });
+
+    it("matches keywords as whole words", async () => {
+      const partial = await post({
+        ...validBody,
+        filters: { ...DEFAULT_FILTERS, allowKeywords: ["bake"] },
+      });
+      expect(partial.status).toBe(404);
+
+      const whole = await post({
+        ...validBody,
+        filters: { ...DEFAULT_FILTERS, allowKeywords: ["bakery"] },
+      });
+      const run = (await whole.json()) as StoredRun;
+      expect(run.stories.map((story) => story.id)).toEqual(["t3fx01"]);
+    });
+
+    it("keeps short posts under the default filters", async () => {
+      // fixtures/reddit/nostupidquestions-week.json holds short bodies and a title-only thread.
+      const fitted = await post({
+        ...validBody,
+        subreddit: "NoStupidQuestions",
+        filters: { ...DEFAULT_FILTERS, fitDuration: true },
+      });
+      expect(fitted.status).toBe(404);
+
+      const response = await post({ ...validBody, subreddit: "NoStupidQuestions" });
+      expect(response.status).toBe(200);
+      const run = (await response.json()) as StoredRun;
+      expect(run.stories.map((story) => story.id)).toEqual(["t3nq01", "t3nq02"]);
+    });
+
+    it("never hands the same post to two concurrent runs", async () => {
+      const responses = await Promise.all([post(validBody), post(validBody)]);
+      const runs = (await Promise.all(responses.map((response) => response.json()))) as StoredRun[];
+
+      const ids = runs.flatMap((run) => run.stories.map((story) => story.id));
+      expect(ids).toHaveLength(4);
+      expect(new Set(ids).size).toBe(4);
+    });
+
+    it("says so when every fetched post was already used", async () => {
+      // A one-story run fetches three posts, so three runs use them all up.
+      const single = { ...validBody, storyCount: 1 };
+      for (let run = 0; run < 3; run += 1) {
+        expect((await post(single)).status).toBe(200);
+      }
+
+      const response = await post(single);
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        error:
+          "All 3 fetched posts were already used in earlier packages. Allow repeats to remake them.",
+      });
+    });
+
+    it("returns the Reddit failure with its kind when nothing was recorded", async () => {
+      const response = await post({ ...validBody, subreddit: "NeverRecorded" });
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        error: expect.stringContaining("No fixture recorded for r/NeverRecorded"),
+        details: { kind: "fixture-missing", subreddit: "NeverRecorded" },
+      });
+    });
+
+    it("passes on a rate limit on the listing itself with its Retry-After", async () => {
+      vi.stubEnv("REDDIT_FIXTURES", "live");
+      const fetchMock = vi.fn(
+        async () => new Response("{}", { status: 429, headers: { "Retry-After": "1" } }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const response = await post(validBody);
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("1");
+      expect((await response.json()).details).toEqual({
+        kind: "rate-limited",
+        subreddit: "AskReddit",
+      });
+      // The listing's own status is enough; about.json is never asked.
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns 500 when no story could be generated", async () => {
+      vi.mocked(buildStoriesFromPosts).mockRejectedValue(new Error("Model is overloaded"));
+
+      const response = await post(validBody);
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: "Workflow generation failed.",
+        details: { message: "Workflow generation failed." },
+      });
+    });
+
+    it("returns 500 with the message of an unexpected failure", async () => {
+      vi.mocked(saveRun).mockRejectedValueOnce(new Error("Disk is full"));
+
+      const response = await post(validBody);
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: "Workflow generation failed.",
+        details: { message: "Disk is full" },
+      });
+    });
+
+    it("returns 401 without credentials while auth is on", async () => {
+      vi.stubEnv("SESSION_SECRET", "test-secret");
+
+      const response = await post(validBody);
+      expect(response.status).toBe(401);
+      expect(response.headers.get("WWW-Authenticate")).toBe('Bearer realm="api"');
+      expect(await response.json()).toEqual({
+        error: "Send an API key as a Bearer token or X-API-Key header.",
+      });
+    });
+
+    it("returns 401 for an unknown API key even while auth is off", async () => {
+      const response = await post(validBody, { Authorization: "Bearer not-a-key" });
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: "Invalid or revoked API key." });
+    });
+  });
+
+  describe("streaming", () => {
+    it("emits stage events and ends with the assembled package", async () => {
+      const response = await post(validBody, { Accept: NDJSON_CONTENT_TYPE });
+      expect(response.headers.get("Content-Type")).toContain(NDJSON_CONTENT_TYPE);
+
+      const events = await readEvents(response);
+      expect(events.map((event) => event.type)).toEqual([
+        "posts-fetched",
+        "story-scripted",
+        "story-scripted",
+        "package-assembled",
+      ]);
+      const last = events[events.length - 1];
+      expect(last.type === "package-assembled" && parseRunPayload(last.payload).issues).toEqual([]);
+    });
+
+    it("reports failures as an error event", async () => {
+      const response = await post(
+        { ...validBody, subreddit: "QuietCorner" },
+        { Accept: NDJSON_CONTENT_TYPE },
+      );
+      expect(response.status).toBe(200);
+      expect(await readEvents(response)).toEqual([
+        {
+          type: "error",
+          status: 404,
+          message: "No posts found for the requested subreddit/timeframe.",
+        },
+      ]);
+    });
+  });
+});
@@ -1,47 +1,69 @@
 import { NextResponse } from "next/server";
-import { workflowRequestSchema } from "@/lib/schema";
-import { fetchTopRedditPosts } from "@/lib/reddit";
-import { buildStoriesFromPosts } from "@/lib/ai";
-import { assembleWorkflowResponse } from "@/lib/workflow";
+import { authenticate, claimRun } from "@/lib/auth";
+import { ContractError } from "@/lib/contract";
+import { WorkflowError } from "@/lib/errors";
+import { RedditError } from "@/lib/ingest";
+import { runWorkflow } from "@/lib/pipeline";
+import { parseWorkflowRequest, type ParsedWorkflowSettings } from "@/lib/request";
+import { encodeNdjson, NDJSON_CONTENT_TYPE, wantsNdjson } from "@/lib/stream";
+import type { StoredRun, WorkflowStreamEvent } from "@/lib/types";
+
+type FinishUsage = (run: StoredRun | null) => Promise<void>;
 
 export async function POST(request: Request) {
+  const auth = await authenticate(request);
+  if (auth.response) return auth.response;
+
+  const json = await request.json().catch(() => null);
+  const parsed = parseWorkflowRequest(json ?? {});
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid request payload",
+        details: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const settings = parsed.data;
+  const claim = await claimRun(auth.caller, settings.storyCount, "workflow");
+  if (claim.response) return claim.response;
+
+  if (wantsNdjson(request)) {
+    return streamWorkflow(settings, claim.headers, claim.finish);
+  }
+
   try {
-    const json = await request.json();
-    const parsed = workflowRequestSchema.safeParse({
-      ...json,
-      storyCount: Number(json.storyCount),
-      duration: Number(json.duration),
-      includeBroll: Boolean(json.includeBroll),
-    });
-
-    if (!parsed.success) {
+    const run = await runWorkflow(settings, { emit: () => undefined });
+    await claim.finish(run);
+
+    return NextResponse.json(run, { headers: claim.headers });
+  } catch (error) {
+    await claim.finish(null);
+    const headers = claim.headers;
+    if (error instanceof RedditError) {
       return NextResponse.json(
+        { error: error.message, details: { kind: error.kind, subreddit: error.subreddit } },
         {
-          error: "Invalid request payload",
-          details: parsed.error.flatten(),
+          status: error.status,
+          headers: error.retryAfterMs
+            ? { ...headers, "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+            : headers,
         },
-        { status: 400 },
       );
     }
-
-    const settings = parsed.data;
-
-    const posts = await fetchTopRedditPosts(settings.subreddit, settings.timeframe, settings.storyCount * 2);
-    if (posts.length === 0) {
+    if (error instanceof ContractError) {
+      console.error("Workflow output breaks the schema", error.issues);
       return NextResponse.json(
-        { error: "No posts found for the requested subreddit/timeframe." },
-        { status: 404 },
+        { error: "Workflow output does not match the published schema.", details: { issues: error.issues } },
+        { status: 500, headers },
       );
     }
-
-    const selectedPosts = posts.slice(0, settings.storyCount);
-
-    const stories = await buildStoriesFromPosts(selectedPosts, settings);
-
-    const workflow = assembleWorkflowResponse(stories, settings, selectedPosts);
-
-    return NextResponse.json(workflow);
-  } catch (error) {
+    if (error instanceof WorkflowError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status, headers });
+    }
     console.error("Workflow generation failed", error);
     return NextResponse.json(
       {
@@ -51,7 +73,45 @@ export async function POST(request: Request) {
             ? { message: error.message }
             : { message: "Unknown error" },
       },
-      { status: 500 },
+      { status: 500, headers },
     );
   }
 }
+
+/** Streams the pipeline's stage events as NDJSON. */
+function streamWorkflow(
+  settings: ParsedWorkflowSettings,
+  headers: Record<string, string>,
+  finishUsage: FinishUsage,
+) {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: WorkflowStreamEvent) =>
+        controller.enqueue(encodeNdjson(event));
+
+      try {
+        await finishUsage(await runWorkflow(settings, { emit: send }));
+      } catch (error) {
+        await finishUsage(null);
+        if (!(error instanceof WorkflowError)) {
+          console.error("Workflow generation failed", error);
+        }
+        send({
+          type: "error",
+          status: error instanceof WorkflowError ? error.status : 500,
+          message: error instanceof Error ? error.message : "Workflow generation failed.",
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": `${NDJSON_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,187 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_COMMENT_OPTIONS } from "@/lib/comments";
+import { DEFAULT_COMPLIANCE } from "@/lib/compliance";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import type { StoredRun, WorkflowJob, WorkflowStreamEvent } from "@/lib/types";
+import Home from "./page";
+
+const sampleRun: StoredRun = {
+  id: "run-1",
+  schemaVersion: 1,
+  generatedAt: "2026-10-12T07:05:00.000Z",
+  settings: {
+    subreddit: "AskReddit",
+    sources: [{ subreddit: "AskReddit", weight: 1 }],
+    timeframe: "week",
+    storyCount: 1,
+    duration: 30,
+    voiceProfile: "narrator",
+    includeBroll: false,
+    allowRepeats: false,
+    filters: DEFAULT_FILTERS,
+    ranking: "score",
+    comments: DEFAULT_COMMENT_OPTIONS,
+    platforms: ["youtube"],
+    compliance: DEFAULT_COMPLIANCE,
+    locales: [],
+    hookVariants: 0,
+  },
+  stories: [
+    {
+      id: "t3fx01",
+      title: "The dog that ran a bakery's deliveries",
+      sourceUrl: "https://www.reddit.com/r/AskReddit/comments/t3fx01/",
+      hook: "A lost dog showed up wearing a tiny backpack.",
+      beats: [
+        {
+          timestamp: 0,
+          duration: 15,
+          headline: "The backpack",
+          voiceover: "The dog showed up in my garage with a note.",
+          motionPrompt: "Slow push-in on a garage door",
+          captions: ["The dog showed up", "with a note"],
+        },
+        {
+          timestamp: 15,
+          duration: 15,
+          headline: "The bakery",
+          voiceover: "The bakery owner burst into tears when I arrived.",
+          motionPrompt: "Warm shop interior at dawn",
+          captions: ["The owner burst", "into tears"],
+        },
+      ],
+      callToAction: "Follow for the next story.",
+      soundtrackPrompt: "Warm lo-fi piano",
+      thumbnailPrompt: "Golden retriever with a backpack",
+      keywords: ["dog", "bakery"],
+      provider: "llm",
+    },
+  ],
+  notes: {
+    postingChecklist: ["Add captions", "Pin the source comment"],
+    uploadCopy: "A lost dog had a secret job.\n\n#storytime #dogs",
+    hashtags: ["#storytime", "#dogs"],
+  },
+};
+
+const jobEvents: WorkflowStreamEvent[] = [
+  { type: "posts-fetched", fetched: 6, selected: 1, skippedDuplicates: 0 },
+  { type: "story-scripted", index: 0, story: sampleRun.stories[0] },
+  { type: "package-assembled", payload: sampleRun },
+];
+
+function job(overrides: Partial<WorkflowJob>): WorkflowJob {
+  return {
+    id: "job-1",
+    status: "queued",
+    settings: sampleRun.settings,
+    events: [],
+    createdAt: "2026-10-12T07:00:00.000Z",
+    ...overrides,
+  };
+}
+
+type Route = (init?: RequestInit) => Response;
+
+/**
+ * Answers the page's requests by path; anything the test does not set up
+ * behaves like an empty list so the side panels render without data.
+ */
+function mockApi(routes: Record<string, Route>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input.toString();
+    const key = `${init?.method ?? "GET"} ${url.split("?")[0]}`;
+    if (routes[key]) return routes[key](init);
+    if (key === "GET /api/runs") return Response.json({ runs: [] });
+    if (key === "GET /api/presets") return Response.json({ presets: [] });
+    if (key === "GET /api/schedules") return Response.json({ schedules: [] });
+    return Response.json({ error: "Not found." }, { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function submit() {
+  fireEvent.click(screen.getByRole("button", { name: "Generate Shorts Package" }));
+}
+
+let writeText: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  writeText = vi.fn(async () => undefined);
+  Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+});
+
+afterEach(() => {
+  cleanup();
+  window.localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("Home", () => {
+  it("submits the settings as a job and renders the assembled package", async () => {
+    const fetchMock = mockApi({
+      "POST /api/jobs": () => Response.json(job({}), { status: 202 }),
+      "GET /api/jobs/job-1": () => Response.json(job({ status: "done", events: jobEvents })),
+    });
+    render(<Home />);
+    submit();
+
+    expect(await screen.findByText("Package assembled.")).toBeTruthy();
+    expect(screen.getByText(sampleRun.stories[0].hook)).toBeTruthy();
+    expect(screen.getByText(/Fetched 6 posts, skipped 0 already used, scripting 1/)).toBeTruthy();
+
+    const [, init] = fetchMock.mock.calls.find(([url]) => url === "/api/jobs") ?? [];
+    expect(init?.method).toBe("POST");
+    expect(JSON.parse(String(init?.body))).toMatchObject({
+      subreddit: "AskReddit",
+      timeframe: "week",
+      storyCount: 2,
+      duration: 45,
+    });
+    expect(window.localStorage.getItem("workflow:active-job")).toBeNull();
+  });
+
+  it("shows the error when the job is rejected", async () => {
+    mockApi({
+      "POST /api/jobs": () => Response.json({ error: "Invalid request payload" }, { status: 400 }),
+    });
+    render(<Home />);
+    submit();
+
+    expect(await screen.findByText("Invalid request payload")).toBeTruthy();
+    expect(screen.queryByRole("button", { name: "Copy JSON" })).toBeNull();
+  });
+
+  it("shows the error a failed job reports", async () => {
+    const message = "No posts found for the requested subreddit/timeframe.";
+    const events: WorkflowStreamEvent[] = [{ type: "error", status: 404, message }];
+    mockApi({
+      "POST /api/jobs": () => Response.json(job({}), { status: 202 }),
+      "GET /api/jobs/job-1": () => Response.json(job({ status: "failed", error: message, events })),
+    });
+    render(<Home />);
+    submit();
+
+    expect(await screen.findByText(message)).toBeTruthy();
+  });
+
+  it("copies the package JSON and the upload copy", async () => {
+    mockApi({
+      "POST /api/jobs": () => Response.json(job({}), { status: 202 }),
+      "GET /api/jobs/job-1": () => Response.json(job({ status: "done", events: jobEvents })),
+    });
+    render(<Home />);
+    submit();
+
+    fireEvent.click(await screen.findByRole("button", { name: "Copy JSON" }));
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith(JSON.stringify(sampleRun, null, 2)));
+    expect(await screen.findByRole("button", { name: "Copied!" })).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Copy Upload Copy" }));
+    await waitFor(() => expect(writeText).toHaveBeenLastCalledWith(sampleRun.notes.uploadCopy));
+  });
+});
@@ -1,49 +1,57 @@
 "use client";
 
-import { useEffect, useMemo, useState, useTransition, type ReactNode } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useTransition,
+  type ReactNode,
+} from "react";
 import clsx from "clsx";
+import Link from "next/link";
+import { BatchFieldset } from "@/components/batch-fieldset";
+import { CalendarView } from "@/components/calendar-view";
+import { ClipboardButton } from "@/components/clipboard-button";
+import { CommentsFieldset } from "@/components/comments-fieldset";
+import { FiltersFieldset } from "@/components/filters-fieldset";
+import { HistoryPanel } from "@/components/history-panel";
+import { PresetPicker } from "@/components/preset-picker";
+import { SchedulePanel } from "@/components/schedule-panel";
+import { SourcesField } from "@/components/sources-field";
+import { StoryAudio } from "@/components/story-audio";
+import { StoryEditor } from "@/components/story-editor";
+import { StoryRender } from "@/components/story-render";
+import { StoryTranslations } from "@/components/story-translations";
+import { StoryVariants } from "@/components/story-variants";
+import { UploadBlueprint } from "@/components/upload-blueprint";
+import { DEFAULT_COMMENT_OPTIONS } from "@/lib/comments";
+import { DEFAULT_COMPLIANCE, PROFANITY_POLICIES, summarizeReview } from "@/lib/compliance";
+import { storyExports, type StoryExportFormat } from "@/lib/exports";
+import { DEFAULT_FILTERS } from "@/lib/filters";
+import { PLATFORM_RULES, PLATFORMS } from "@/lib/platforms";
+import { LOCALE_LABELS, LOCALES, localizeStory } from "@/lib/translate";
+import { MAX_HOOK_VARIANTS } from "@/lib/variants";
+import type {
+  BatchPlan,
+  Locale,
+  Story,
+  StoredRun,
+  WorkflowJob,
+  WorkflowSettings,
+  WorkflowStreamEvent,
+} from "@/lib/types";
 
-type WorkflowSettings = {
-  subreddit: string;
-  timeframe: "day" | "week" | "month" | "year" | "all";
-  storyCount: number;
-  duration: number;
-  voiceProfile: "narrator" | "friendly" | "dramatic";
-  includeBroll: boolean;
-};
+type StoryFailure = { index: number; title: string; message: string };
 
-type StoryBeat = {
-  timestamp: number;
-  duration: number;
-  headline: string;
-  voiceover: string;
-  motionPrompt: string;
-  brollPrompt?: string;
-  captions: string[];
-};
+const ACTIVE_JOB_KEY = "workflow:active-job";
+const JOB_POLL_INTERVAL_MS = 1000;
 
-type Story = {
-  id: string;
-  title: string;
-  sourceUrl: string;
-  hook: string;
-  beats: StoryBeat[];
-  callToAction: string;
-  soundtrackPrompt: string;
-  thumbnailPrompt: string;
-  keywords: string[];
-};
-
-type WorkflowPayload = {
-  generatedAt: string;
-  settings: WorkflowSettings;
-  stories: Story[];
-  notes: {
-    postingChecklist: string[];
-    uploadCopy: string;
-    hashtags: string[];
-  };
-};
+const stageLabels = {
+  reddit: "Reddit fetch",
+  model: "Story model",
+  translate: "Translation",
+} as const;
 
 const timeframes = [
   { value: "day", label: "Past 24h" },
@@ -59,202 +67,542 @@ const voices = [
   { value: "dramatic", label: "Dramatic" },
 ] as const;
 
+const profanityLabels = {
+  allow: "Allow",
+  flag: "Flag",
+  mask: "Mask",
+  block: "Block",
+} as const;
+
+const reviewLabels = {
+  redacted: "Redacted personal details",
+  warning: "Needs review",
+  blocked: "Blocked: edit before publishing",
+} as const;
+
 const initialSettings: WorkflowSettings = {
   subreddit: "AskReddit",
+  sources: [{ subreddit: "AskReddit", weight: 1 }],
   timeframe: "week",
   storyCount: 2,
   duration: 45,
   voiceProfile: "narrator",
   includeBroll: true,
+  allowRepeats: false,
+  filters: DEFAULT_FILTERS,
+  ranking: "score",
+  comments: DEFAULT_COMMENT_OPTIONS,
+  platforms: [...PLATFORMS],
+  compliance: DEFAULT_COMPLIANCE,
+  locales: [],
+  hookVariants: 0,
 };
 
 export default function Home() {
   const [settings, setSettings] = useState<WorkflowSettings>(initialSettings);
-  const [response, setResponse] = useState<WorkflowPayload | null>(null);
+  const [response, setResponse] = useState<StoredRun | null>(null);
+  const [liveStories, setLiveStories] = useState<Story[]>([]);
+  const [failures, setFailures] = useState<StoryFailure[]>([]);
+  const [progress, setProgress] = useState<string[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [formVersion, setFormVersion] = useState(0);
+  const [editingStoryId, setEditingStoryId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchPlan | null>(null);
+  const [storyLocales, setStoryLocales] = useState<Record<string, Locale | null>>({});
   const [isPending, startTransition] = useTransition();
 
   const hasResults = !!response;
+  const isRunning = isPending || jobId !== null;
 
   useEffect(() => {
     setError(null);
   }, [settings]);
 
+  const handleStreamEvent = useCallback((event: WorkflowStreamEvent) => {
+    switch (event.type) {
+      case "posts-fetched":
+        setProgress((prev) => [
+          ...prev,
+          `Fetched ${event.fetched} posts, skipped ${event.skippedDuplicates} already used, scripting ${event.selected}.`,
+        ]);
+        break;
+      case "story-scripted":
+        setLiveStories((prev) => [...prev, event.story]);
+        setProgress((prev) => [...prev, `Story ${event.index + 1} scripted.`]);
+        break;
+      case "story-failed":
+        setFailures((prev) => [...prev, event]);
+        setProgress((prev) => [...prev, `Story ${event.index + 1} failed.`]);
+        break;
+      case "stage-retry":
+        setProgress((prev) => [
+          ...prev,
+          `${stageLabels[event.stage]} failed (attempt ${event.attempt}), retrying in ${Math.round(event.delayMs / 1000)}s.`,
+        ]);
+        break;
+      case "translation-failed":
+        setProgress((prev) => [
+          ...prev,
+          `${LOCALE_LABELS[event.locale]} translation failed and was left out: ${event.message}`,
+        ]);
+        break;
+      case "package-assembled":
+        setResponse(event.payload);
+        setProgress((prev) => [...prev, "Package assembled."]);
+        setHistoryVersion((prev) => prev + 1);
+        break;
+      case "error":
+        setError(event.message);
+        break;
+    }
+  }, []);
+
+  // Resume a run that was still in flight when the page was last closed.
+  useEffect(() => {
+    const stored = window.localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!stored) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const res = await fetch(`/api/jobs/${stored}`);
+      if (cancelled) return;
+      if (res.ok) setJobId(stored);
+      else window.localStorage.removeItem(ACTIVE_JOB_KEY);
+    };
+
+    load().catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!jobId) return;
+    let seen = 0;
+    let stopped = false;
+
+    const poll = async () => {
+      const res = await fetch(`/api/jobs/${jobId}`);
+      if (stopped) return;
+      if (!res.ok) {
+        stopped = true;
+        window.localStorage.removeItem(ACTIVE_JOB_KEY);
+        setJobId(null);
+        return;
+      }
+
+      const job = (await res.json()) as WorkflowJob;
+      if (stopped) return;
+      job.events.slice(seen).forEach(handleStreamEvent);
+      seen = job.events.length;
+
+      if (job.status !== "queued" && job.status !== "running") {
+        stopped = true;
+        window.localStorage.removeItem(ACTIVE_JOB_KEY);
+        setJobId(null);
+        if (job.status === "cancelled") setError("Run cancelled.");
+        else if (job.status === "failed" && !job.events.some((event) => event.type === "error")) {
+          setError(job.error ?? "Workflow generation failed.");
+        }
+      }
+    };
+
+    poll().catch(() => undefined);
+    const timer = setInterval(() => {
+      poll().catch(() => undefined);
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [jobId, handleStreamEvent]);
+
   const handleSubmit = () => {
     setError(null);
     setResponse(null);
+    setLiveStories([]);
+    setFailures([]);
+    setProgress([]);
     startTransition(async () => {
       try {
-        const res = await fetch("/api/workflow", {
+        const res = await fetch(batch ? "/api/batch" : "/api/jobs", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(settings),
+          body: JSON.stringify(batch ? { settings, plan: batch } : settings),
         });
         if (!res.ok) {
           const problem = await res.json().catch(() => null);
           throw new Error(problem?.error ?? res.statusText);
         }
-        const payload = (await res.json()) as WorkflowPayload;
-        setResponse(payload);
+        const job = (await res.json()) as WorkflowJob;
+        window.localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+        setJobId(job.id);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unexpected error");
       }
     });
   };
 
+  const handleCancel = async () => {
+    if (!jobId) return;
+    const res = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+    if (!res.ok) {
+      const problem = await res.json().catch(() => null);
+      setError(problem?.error ?? res.statusText);
+    }
+  };
+
+  const handleLoadPreset = (preset: WorkflowSettings) => {
+    setSettings({ ...initialSettings, ...preset });
+    setFormVersion((prev) => prev + 1);
+  };
+
+  const handleStoryUpdated = (story: Story) => {
+    setResponse((prev) => {
+      if (!prev) return prev;
+      const stories = prev.stories.map((item) => (item.id === story.id ? story : item));
+      return { ...prev, stories, review: summarizeReview(stories) };
+    });
+  };
+
+  const handleOpenRun = (run: StoredRun) => {
+    setError(null);
+    setLiveStories([]);
+    setFailures([]);
+    setProgress([]);
+    setResponse(run);
+  };
+
   const formattedStories = useMemo(() => {
-    if (!response) return [];
-    return response.stories.map((story) => ({
+    const stories = response?.stories ?? liveStories;
+    return stories.map((story) => ({
       ...story,
       duration: story.beats.reduce((acc, beat) => acc + beat.duration, 0),
+      shown: localizeStory(story, storyLocales[story.id]),
     }));
-  }, [response]);
+  }, [response, liveStories, storyLocales]);
+
+  const hasStories = formattedStories.length > 0;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
       <main className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-12 lg:flex-row">
-        <section className="w-full max-w-xl rounded-3xl border border-slate-800 bg-slate-900/60 p-6 shadow-2xl shadow-blue-500/5 backdrop-blur">
-          <div className="space-y-2">
-            <p className="text-sm uppercase tracking-[0.4rem] text-blue-300">
-              Agentic Workflow
-            </p>
-            <h1 className="text-3xl font-semibold">
-              Reddit ➜ YouTube Shorts Automation
-            </h1>
-            <p className="text-sm text-slate-300">
-              Scrape trending Reddit threads, generate cinematic short-form
-              scripts, and prep the upload package with one click.
-            </p>
-          </div>
-          <div className="mt-8 space-y-6">
-            <Field label="Target Subreddit">
-              <input
-                value={settings.subreddit}
-                onChange={(event) =>
-                  setSettings((prev) => ({
-                    ...prev,
-                    subreddit: event.target.value,
-                  }))
-                }
-                className="w-full rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30"
-                placeholder="AskReddit"
-                autoComplete="off"
-              />
-            </Field>
-
-            <Field label="Timeframe">
-              <div className="grid grid-cols-3 gap-2">
-                {timeframes.map((option) => (
-                  <button
-                    key={option.value}
-                    type="button"
-                    onClick={() =>
+        <div className="w-full max-w-xl space-y-6">
+          <section className="rounded-3xl border border-slate-800 bg-slate-900/60 p-6 shadow-2xl shadow-blue-500/5 backdrop-blur">
+            <div className="space-y-2">
+              <p className="text-sm uppercase tracking-[0.4rem] text-blue-300">
+                Agentic Workflow
+              </p>
+              <h1 className="text-3xl font-semibold">
+                Reddit ➜ YouTube Shorts Automation
+              </h1>
+              <p className="text-sm text-slate-300">
+                Scrape trending Reddit threads, generate cinematic short-form
+                scripts, and prep the upload package with one click.
+              </p>
+              <Link
+                href="/analytics"
+                className="inline-flex text-xs font-medium text-blue-300 hover:text-blue-200"
+              >
+                Channel performance →
+              </Link>
+            </div>
+            <div className="mt-8 space-y-6">
+              <Field label="Channel Preset">
+                <PresetPicker settings={settings} onLoad={handleLoadPreset} />
+              </Field>
+
+              <Field label="Target Subreddits (weighted)">
+                <SourcesField
+                  sources={settings.sources}
+                  onChange={(sources) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      sources,
+                      subreddit: sources[0]?.subreddit ?? "",
+                    }))
+                  }
+                />
+              </Field>
+
+              <Field label="Timeframe">
+                <div className="grid grid-cols-3 gap-2">
+                  {timeframes.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          timeframe: option.value,
+                        }))
+                      }
+                      className={clsx(
+                        "rounded-xl border px-3 py-2 text-sm font-medium transition hover:border-blue-400/80 hover:text-blue-200",
+                        settings.timeframe === option.value
+                          ? "border-blue-500 bg-blue-500/20 text-blue-100 shadow"
+                          : "border-slate-800 bg-slate-950/40 text-slate-200",
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+
+              <Field label="Stories to Produce">
+                <Slider
+                  min={1}
+                  max={5}
+                  value={settings.storyCount}
+                  onChange={(value) =>
+                    setSettings((prev) => ({ ...prev, storyCount: value }))
+                  }
+                />
+              </Field>
+
+              <Field label="Hook Variants per Story">
+                <Slider
+                  min={0}
+                  max={MAX_HOOK_VARIANTS}
+                  value={settings.hookVariants}
+                  onChange={(value) =>
+                    setSettings((prev) => ({ ...prev, hookVariants: value }))
+                  }
+                />
+              </Field>
+
+              <Field label="Target Duration (seconds)">
+                <Slider
+                  min={30}
+                  max={60}
+                  step={5}
+                  value={settings.duration}
+                  onChange={(value) =>
+                    setSettings((prev) => ({ ...prev, duration: value }))
+                  }
+                />
+              </Field>
+
+              <Field label="Narration Voice">
+                <div className="flex flex-wrap gap-2">
+                  {voices.map((voice) => (
+                    <button
+                      key={voice.value}
+                      type="button"
+                      onClick={() =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          voiceProfile: voice.value,
+                        }))
+                      }
+                      className={clsx(
+                        "rounded-full border px-4 py-2 text-sm font-medium transition",
+                        settings.voiceProfile === voice.value
+                          ? "border-violet-500 bg-violet-500/20 text-violet-100"
+                          : "border-slate-800 bg-slate-950/40 text-slate-200 hover:border-violet-400/80 hover:text-violet-200",
+                      )}
+                    >
+                      {voice.label}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+
+              <div className="space-y-2 text-sm">
+                <span className="font-medium text-slate-200">Filters</span>
+                <FiltersFieldset
+                  key={formVersion}
+                  filters={settings.filters}
+                  ranking={settings.ranking}
+                  duration={settings.duration}
+                  onFiltersChange={(filters) =>
+                    setSettings((prev) => ({ ...prev, filters }))
+                  }
+                  onRankingChange={(ranking) =>
+                    setSettings((prev) => ({ ...prev, ranking }))
+                  }
+                />
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <span className="font-medium text-slate-200">Top Comments</span>
+                <CommentsFieldset
+                  options={settings.comments}
+                  onChange={(comments) =>
+                    setSettings((prev) => ({ ...prev, comments }))
+                  }
+                />
+              </div>
+
+              <Field label="Target Platforms">
+                <div className="grid grid-cols-3 gap-2">
+                  {PLATFORMS.map((platform) => {
+                    const selected = settings.platforms.includes(platform);
+                    return (
+                      <button
+                        key={platform}
+                        type="button"
+                        onClick={() =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            platforms: selected
+                              ? prev.platforms.filter((item) => item !== platform)
+                              : [...prev.platforms, platform],
+                          }))
+                        }
+                        disabled={selected && settings.platforms.length === 1}
+                        className={clsx(
+                          "rounded-xl border px-3 py-2 text-sm font-medium transition hover:border-blue-400/80 hover:text-blue-200",
+                          selected
+                            ? "border-blue-500 bg-blue-500/20 text-blue-100 shadow"
+                            : "border-slate-800 bg-slate-950/40 text-slate-200",
+                        )}
+                      >
+                        {PLATFORM_RULES[platform].label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </Field>
+
+              <Field label="Translate Into">
+                <div className="grid grid-cols-4 gap-2">
+                  {LOCALES.map((locale) => {
+                    const selected = settings.locales.includes(locale);
+                    return (
+                      <button
+                        key={locale}
+                        type="button"
+                        onClick={() =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            locales: selected
+                              ? prev.locales.filter((item) => item !== locale)
+                              : [...prev.locales, locale],
+                          }))
+                        }
+                        className={clsx(
+                          "rounded-xl border px-3 py-2 text-sm font-medium transition hover:border-blue-400/80 hover:text-blue-200",
+                          selected
+                            ? "border-blue-500 bg-blue-500/20 text-blue-100 shadow"
+                            : "border-slate-800 bg-slate-950/40 text-slate-200",
+                        )}
+                      >
+                        {LOCALE_LABELS[locale]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </Field>
+
+              <Field label="Profanity Policy">
+                <div className="grid grid-cols-4 gap-2">
+                  {PROFANITY_POLICIES.map((policy) => (
+                    <button
+                      key={policy}
+                      type="button"
+                      onClick={() =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          compliance: { ...prev.compliance, profanity: policy },
+                        }))
+                      }
+                      className={clsx(
+                        "rounded-xl border px-3 py-2 text-sm font-medium transition hover:border-blue-400/80 hover:text-blue-200",
+                        settings.compliance.profanity === policy
+                          ? "border-blue-500 bg-blue-500/20 text-blue-100 shadow"
+                          : "border-slate-800 bg-slate-950/40 text-slate-200",
+                      )}
+                    >
+                      {profanityLabels[policy]}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+
+              <Field label="Content Calendar">
+                <BatchFieldset plan={batch} onChange={setBatch} />
+              </Field>
+
+              <Field label="Production Options">
+                <label className="flex items-center gap-3 rounded-2xl border border-slate-800 bg-slate-950/40 px-4 py-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings.includeBroll}
+                    onChange={(event) =>
                       setSettings((prev) => ({
                         ...prev,
-                        timeframe: option.value,
+                        includeBroll: event.target.checked,
                       }))
                     }
-                    className={clsx(
-                      "rounded-xl border px-3 py-2 text-sm font-medium transition hover:border-blue-400/80 hover:text-blue-200",
-                      settings.timeframe === option.value
-                        ? "border-blue-500 bg-blue-500/20 text-blue-100 shadow"
-                        : "border-slate-800 bg-slate-950/40 text-slate-200",
-                    )}
-                  >
-                    {option.label}
-                  </button>
-                ))}
-              </div>
-            </Field>
-
-            <Field label="Stories to Produce">
-              <Slider
-                min={1}
-                max={5}
-                value={settings.storyCount}
-                onChange={(value) =>
-                  setSettings((prev) => ({ ...prev, storyCount: value }))
-                }
-              />
-            </Field>
-
-            <Field label="Target Duration (seconds)">
-              <Slider
-                min={30}
-                max={60}
-                step={5}
-                value={settings.duration}
-                onChange={(value) =>
-                  setSettings((prev) => ({ ...prev, duration: value }))
-                }
-              />
-            </Field>
-
-            <Field label="Narration Voice">
-              <div className="flex flex-wrap gap-2">
-                {voices.map((voice) => (
-                  <button
-                    key={voice.value}
-                    type="button"
-                    onClick={() =>
+                    className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500/40"
+                  />
+                  <span>Include AI b-roll prompts for each beat</span>
+                </label>
+                <label className="flex items-center gap-3 rounded-2xl border border-slate-800 bg-slate-950/40 px-4 py-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings.allowRepeats}
+                    onChange={(event) =>
                       setSettings((prev) => ({
                         ...prev,
-                        voiceProfile: voice.value,
+                        allowRepeats: event.target.checked,
                       }))
                     }
-                    className={clsx(
-                      "rounded-full border px-4 py-2 text-sm font-medium transition",
-                      settings.voiceProfile === voice.value
-                        ? "border-violet-500 bg-violet-500/20 text-violet-100"
-                        : "border-slate-800 bg-slate-950/40 text-slate-200 hover:border-violet-400/80 hover:text-violet-200",
-                    )}
-                  >
-                    {voice.label}
-                  </button>
-                ))}
-              </div>
-            </Field>
-
-            <Field label="Production Options">
-              <label className="flex items-center gap-3 rounded-2xl border border-slate-800 bg-slate-950/40 px-4 py-3 text-sm">
-                <input
-                  type="checkbox"
-                  checked={settings.includeBroll}
-                  onChange={(event) =>
-                    setSettings((prev) => ({
-                      ...prev,
-                      includeBroll: event.target.checked,
-                    }))
-                  }
-                  className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500/40"
-                />
-                <span>Include AI b-roll prompts for each beat</span>
-              </label>
-            </Field>
-
-            <button
-              type="button"
-              onClick={handleSubmit}
-              className="flex w-full items-center justify-center gap-2 rounded-2xl bg-blue-500 px-6 py-3 text-sm font-semibold text-white transition hover:bg-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
-              disabled={isPending}
-            >
-              {isPending ? (
-                <>
-                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-white/40 border-t-white" />
-                  Running workflow…
-                </>
-              ) : (
-                "Generate Shorts Package"
+                    className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500/40"
+                  />
+                  <span>Allow posts used in earlier packages (remake)</span>
+                </label>
+              </Field>
+
+              <button
+                type="button"
+                onClick={handleSubmit}
+                className="flex w-full items-center justify-center gap-2 rounded-2xl bg-blue-500 px-6 py-3 text-sm font-semibold text-white transition hover:bg-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+                disabled={isRunning}
+              >
+                {isRunning ? (
+                  <>
+                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-white/40 border-t-white" />
+                    Running workflow…
+                  </>
+                ) : batch ? (
+                  "Generate Content Calendar"
+                ) : (
+                  "Generate Shorts Package"
+                )}
+              </button>
+
+              {jobId && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="w-full rounded-2xl border border-slate-700 px-6 py-2 text-sm font-semibold text-slate-200 transition hover:border-red-400 hover:text-red-200"
+                >
+                  Cancel run
+                </button>
               )}
-            </button>
 
-            {error && (
-              <div className="rounded-2xl border border-red-400/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
-                {error}
-              </div>
-            )}
-          </div>
-        </section>
+              {error && (
+                <div className="rounded-2xl border border-red-400/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                  {error}
+                </div>
+              )}
+            </div>
+          </section>
+
+          <HistoryPanel
+            refreshKey={historyVersion}
+            activeRunId={response?.id}
+            onOpen={handleOpenRun}
+          />
+
+          <SchedulePanel settings={settings} />
+        </div>
 
         <section className="flex-1 space-y-6">
           <div className="rounded-3xl border border-slate-800 bg-slate-900/40 p-6">
@@ -275,11 +623,27 @@ export default function Home() {
                     label="Copy Upload Copy"
                     payload={response.notes.uploadCopy}
                   />
+                  <a
+                    href={`/api/runs/${response.id}/bundle`}
+                    className="rounded-full border border-slate-700 bg-slate-900/70 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-200"
+                  >
+                    Download ZIP
+                  </a>
                 </div>
               )}
             </header>
             <div className="mt-6 min-h-[280px] space-y-5">
-              {isPending && (
+              {progress.length > 0 && (
+                <ol className="space-y-1 text-xs text-slate-400">
+                  {progress.map((entry, entryIndex) => (
+                    <li key={entryIndex} className="flex gap-2">
+                      <span className="text-blue-300">›</span>
+                      <span>{entry}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {isRunning && !hasStories && (
                 <div className="space-y-4">
                   <SkeletonLine width="75%" />
                   <SkeletonLine width="90%" />
@@ -287,32 +651,72 @@ export default function Home() {
                   <SkeletonLine width="80%" />
                 </div>
               )}
-              {!isPending && !hasResults && (
+              {!isRunning && !hasResults && !hasStories && (
                 <div className="rounded-2xl border border-dashed border-slate-700 bg-slate-950/30 p-8 text-center text-sm text-slate-400">
                   Configure your workflow and hit generate to produce a full short-form package.
                 </div>
               )}
 
-              {hasResults && response && (
-                <div className="space-y-8">
-                  <div className="space-y-3 rounded-2xl border border-blue-500/30 bg-blue-500/10 p-5">
-                    <h3 className="text-lg font-medium text-blue-100">
-                      Upload Blueprint
-                    </h3>
-                    <p className="text-sm text-blue-50/80 whitespace-pre-line">
-                      {response.notes.uploadCopy}
+              {failures.length > 0 && (
+                <div className="space-y-1 rounded-2xl border border-amber-400/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-100">
+                  {failures.map((failure) => (
+                    <p key={failure.index}>
+                      Story {failure.index + 1} ({failure.title}) failed: {failure.message}
                     </p>
-                    <div className="flex flex-wrap gap-2 text-xs text-blue-100/80">
-                      {response.notes.hashtags.map((tag) => (
-                        <span
-                          key={tag}
-                          className="rounded-full border border-blue-400/50 bg-blue-500/10 px-3 py-1"
-                        >
-                          {tag}
-                        </span>
-                      ))}
+                  ))}
+                </div>
+              )}
+
+              {hasStories && (
+                <div className="space-y-8">
+                  {hasResults && response && (
+                    <div className="space-y-3 rounded-2xl border border-blue-500/30 bg-blue-500/10 p-5">
+                      <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-lg font-medium text-blue-100">
+                          Upload Blueprint
+                        </h3>
+                        {response.review && (
+                          <span
+                            className={clsx(
+                              "rounded-full px-3 py-1 text-xs font-semibold",
+                              response.review.ready
+                                ? "bg-emerald-500/20 text-emerald-200"
+                                : "bg-red-500/20 text-red-200",
+                            )}
+                          >
+                            {response.review.ready
+                              ? `Ready${response.review.warnings ? ` · ${response.review.warnings} to check` : ""}`
+                              : `${response.review.blockedStories} ${response.review.blockedStories === 1 ? "story" : "stories"} blocked`}
+                          </span>
+                        )}
+                      </div>
+                      {!!response.selection?.skippedDuplicates && (
+                        <p className="text-xs text-blue-100/70">
+                          Skipped {response.selection.skippedDuplicates} of{" "}
+                          {response.selection.candidates} candidates already used in earlier packages.
+                        </p>
+                      )}
+                      <UploadBlueprint key={response.id} run={response} />
                     </div>
-                  </div>
+                  )}
+
+                  {response?.calendar && <CalendarView run={response} />}
+
+                  {!!response?.selection?.rejected.length && (
+                    <details className="rounded-2xl border border-slate-800 bg-slate-950/40 p-5 text-sm text-slate-300">
+                      <summary className="cursor-pointer font-medium text-slate-100">
+                        {response.selection.rejected.length} candidates rejected
+                      </summary>
+                      <ul className="mt-3 space-y-2 text-xs">
+                        {response.selection.rejected.map((candidate) => (
+                          <li key={candidate.postId}>
+                            <span className="text-slate-100">{candidate.title}</span>
+                            <span className="text-slate-400"> — {candidate.reasons.join("; ")}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
 
                   <div className="space-y-3">
                     <h3 className="text-lg font-semibold">Stories</h3>
@@ -326,116 +730,243 @@ export default function Home() {
                             <div>
                               <p className="text-xs uppercase tracking-[0.3rem] text-slate-400">
                                 Story {storyIndex + 1}
+                                {story.provider && ` · via ${story.provider}`}
                               </p>
                               <h4 className="text-xl font-semibold text-slate-100">
-                                {story.hook}
+                                {story.shown.hook}
                               </h4>
                             </div>
-                            <a
-                              href={story.sourceUrl}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="inline-flex items-center gap-2 text-xs font-medium text-blue-300 hover:text-blue-200"
-                            >
-                              View Source →
-                            </a>
+                            <div className="flex items-center gap-4">
+                              {response && editingStoryId !== story.id && (
+                                <button
+                                  type="button"
+                                  onClick={() => setEditingStoryId(story.id)}
+                                  className="text-xs font-medium text-violet-300 hover:text-violet-200"
+                                >
+                                  Edit story
+                                </button>
+                              )}
+                              <a
+                                href={story.sourceUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex items-center gap-2 text-xs font-medium text-blue-300 hover:text-blue-200"
+                              >
+                                View Source →
+                              </a>
+                            </div>
                           </header>
 
-                          <div className="grid gap-4 md:grid-cols-[280px_1fr]">
-                            <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/60 p-4 text-xs text-slate-300">
-                              <p>
-                                <span className="font-semibold text-slate-100">
-                                  Target runtime:
-                                </span>{" "}
-                                {story.duration}s
-                              </p>
-                              <p>
-                                <span className="font-semibold text-slate-100">
-                                  Call to action:
-                                </span>{" "}
-                                {story.callToAction}
-                              </p>
-                              <p>
-                                <span className="font-semibold text-slate-100">
-                                  Soundtrack prompt:
-                                </span>{" "}
-                                {story.soundtrackPrompt}
+                          {story.validation && story.validation.status !== "valid" && (
+                            <div
+                              className={clsx(
+                                "space-y-1 rounded-2xl border px-4 py-3 text-xs",
+                                story.validation.status === "flagged"
+                                  ? "border-red-400/40 bg-red-500/10 text-red-200"
+                                  : "border-amber-400/30 bg-amber-500/10 text-amber-100",
+                              )}
+                            >
+                              <p className="font-semibold uppercase tracking-widest">
+                                {story.validation.status === "flagged"
+                                  ? "Flagged: fails the story contract"
+                                  : "Auto-repaired"}
                               </p>
-                              <p>
-                                <span className="font-semibold text-slate-100">
-                                  Thumbnail prompt:
-                                </span>{" "}
-                                {story.thumbnailPrompt}
+                              {[...story.validation.violations, ...story.validation.repairs].map(
+                                (note, noteIndex) => (
+                                  <p key={noteIndex}>{note}</p>
+                                ),
+                              )}
+                            </div>
+                          )}
+
+                          {story.review && story.review.status !== "clear" && (
+                            <div
+                              className={clsx(
+                                "space-y-1 rounded-2xl border px-4 py-3 text-xs",
+                                story.review.status === "blocked"
+                                  ? "border-red-400/40 bg-red-500/10 text-red-200"
+                                  : story.review.status === "warning"
+                                    ? "border-amber-400/30 bg-amber-500/10 text-amber-100"
+                                    : "border-slate-700 bg-slate-900/60 text-slate-300",
+                              )}
+                            >
+                              <p className="font-semibold uppercase tracking-widest">
+                                {reviewLabels[story.review.status]}
                               </p>
-                              <div className="flex flex-wrap gap-2">
-                                {story.keywords.map((keyword) => (
-                                  <span
-                                    key={keyword}
-                                    className="rounded-full bg-slate-800 px-2 py-1 text-[11px] uppercase tracking-wide text-slate-300"
-                                  >
-                                    {keyword}
-                                  </span>
-                                ))}
-                              </div>
+                              {story.review.findings.map((finding, findingIndex) => (
+                                <p key={findingIndex}>{finding.message}</p>
+                              ))}
                             </div>
+                          )}
 
-                            <div className="space-y-3">
-                              {story.beats.map((beat, beatIndex) => (
-                                <div
-                                  key={`${story.id}-beat-${beatIndex}`}
-                                  className="rounded-2xl border border-slate-800 bg-slate-950/60 p-4"
-                                >
-                                  <header className="flex items-center justify-between text-xs text-slate-400">
-                                    <span>
-                                      {beat.timestamp.toFixed(0)}s →{" "}
-                                      {(beat.timestamp + beat.duration).toFixed(0)}s
+                          {response && editingStoryId !== story.id && (
+                            <StoryVariants
+                              runId={response.id}
+                              story={story}
+                              onPromoted={handleStoryUpdated}
+                            />
+                          )}
+
+                          {response && editingStoryId !== story.id && (
+                            <StoryTranslations
+                              runId={response.id}
+                              story={story}
+                              locale={storyLocales[story.id] ?? null}
+                              onLocaleChange={(locale) =>
+                                setStoryLocales((prev) => ({ ...prev, [story.id]: locale }))
+                              }
+                              onTranslated={handleStoryUpdated}
+                            />
+                          )}
+
+                          {response && editingStoryId === story.id ? (
+                            <StoryEditor
+                              runId={response.id}
+                              story={
+                                response.stories.find((item) => item.id === story.id) ?? story
+                              }
+                              duration={response.settings.duration}
+                              onSaved={(saved) => {
+                                handleStoryUpdated(saved);
+                                setEditingStoryId(null);
+                              }}
+                              onCancel={() => setEditingStoryId(null)}
+                            />
+                          ) : (
+                            <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+                              <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/60 p-4 text-xs text-slate-300">
+                                <p>
+                                  <span className="font-semibold text-slate-100">
+                                    Target runtime:
+                                  </span>{" "}
+                                  {story.duration}s
+                                </p>
+                                <p>
+                                  <span className="font-semibold text-slate-100">
+                                    Call to action:
+                                  </span>{" "}
+                                  {story.shown.callToAction}
+                                </p>
+                                <p>
+                                  <span className="font-semibold text-slate-100">
+                                    Soundtrack prompt:
+                                  </span>{" "}
+                                  {story.soundtrackPrompt}
+                                </p>
+                                <p>
+                                  <span className="font-semibold text-slate-100">
+                                    Thumbnail prompt:
+                                  </span>{" "}
+                                  {story.thumbnailPrompt}
+                                </p>
+                                {response && (
+                                  <StoryAudio
+                                    runId={response.id}
+                                    story={story}
+                                    onRendered={handleStoryUpdated}
+                                  />
+                                )}
+                                {response && (
+                                  <StoryRender runId={response.id} storyId={story.id} />
+                                )}
+                                {response && (
+                                  <div className="flex flex-wrap gap-2">
+                                    {(Object.keys(storyExports) as StoryExportFormat[]).map((format) => (
+                                      <a
+                                        key={format}
+                                        href={`/api/runs/${response.id}/export?story=${encodeURIComponent(story.id)}&format=${format}${storyLocales[story.id] ? `&locale=${storyLocales[story.id]}` : ""}`}
+                                        download
+                                        className="rounded-full border border-slate-700 px-2 py-1 text-[11px] font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-200"
+                                      >
+                                        ↓ {storyExports[format].label}
+                                      </a>
+                                    ))}
+                                  </div>
+                                )}
+                                <div className="flex flex-wrap gap-2">
+                                  {story.keywords.map((keyword) => (
+                                    <span
+                                      key={keyword}
+                                      className="rounded-full bg-slate-800 px-2 py-1 text-[11px] uppercase tracking-wide text-slate-300"
+                                    >
+                                      {keyword}
                                     </span>
-                                    <span>{beat.headline}</span>
-                                  </header>
-                                  <p className="mt-3 text-sm text-slate-100">
-                                    {beat.voiceover}
-                                  </p>
-                                  <div className="mt-3 grid gap-2 text-xs text-slate-300 md:grid-cols-2">
-                                    <div>
-                                      <p className="font-semibold text-slate-200">
-                                        Motion Direction
-                                      </p>
-                                      <p>{beat.motionPrompt}</p>
-                                    </div>
-                                    {beat.brollPrompt && (
+                                  ))}
+                                </div>
+                              </div>
+
+                              <div className="space-y-3">
+                                {story.shown.beats.map((beat, beatIndex) => (
+                                  <div
+                                    key={`${story.id}-beat-${beatIndex}`}
+                                    className="rounded-2xl border border-slate-800 bg-slate-950/60 p-4"
+                                  >
+                                    <header className="flex items-center justify-between text-xs text-slate-400">
+                                      <span>
+                                        {beat.timestamp.toFixed(0)}s →{" "}
+                                        {(beat.timestamp + beat.duration).toFixed(0)}s
+                                      </span>
+                                      <span className="flex items-center gap-3">
+                                        {beat.comment && (
+                                          <a
+                                            href={`https://www.reddit.com${beat.comment.permalink}`}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="font-medium text-blue-300 hover:text-blue-200"
+                                          >
+                                            u/{beat.comment.author} →
+                                          </a>
+                                        )}
+                                        {beat.headline}
+                                      </span>
+                                    </header>
+                                    <p className="mt-3 text-sm text-slate-100">
+                                      {beat.voiceover}
+                                    </p>
+                                    <div className="mt-3 grid gap-2 text-xs text-slate-300 md:grid-cols-2">
                                       <div>
                                         <p className="font-semibold text-slate-200">
-                                          B-roll Prompt
+                                          Motion Direction
                                         </p>
-                                        <p>{beat.brollPrompt}</p>
+                                        <p>{beat.motionPrompt}</p>
                                       </div>
-                                    )}
+                                      {beat.brollPrompt && (
+                                        <div>
+                                          <p className="font-semibold text-slate-200">
+                                            B-roll Prompt
+                                          </p>
+                                          <p>{beat.brollPrompt}</p>
+                                        </div>
+                                      )}
+                                    </div>
+                                    <p className="mt-3 text-[11px] uppercase tracking-widest text-slate-500">
+                                      Captions: {beat.captions.join(" • ")}
+                                    </p>
                                   </div>
-                                  <p className="mt-3 text-[11px] uppercase tracking-widest text-slate-500">
-                                    Captions: {beat.captions.join(" • ")}
-                                  </p>
-                                </div>
-                              ))}
+                                ))}
+                              </div>
                             </div>
-                          </div>
+                          )}
                         </article>
                       ))}
                     </div>
                   </div>
 
-                  <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-5">
-                    <h3 className="text-lg font-semibold text-slate-100">
-                      Posting Checklist
-                    </h3>
-                    <ul className="space-y-2 text-sm text-slate-300">
-                      {response.notes.postingChecklist.map((item, itemIndex) => (
-                        <li key={itemIndex} className="flex gap-3">
-                          <span className="mt-1 h-2 w-2 rounded-full bg-blue-400" />
-                          <span>{item}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
+                  {hasResults && response && (
+                    <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-5">
+                      <h3 className="text-lg font-semibold text-slate-100">
+                        Posting Checklist
+                      </h3>
+                      <ul className="space-y-2 text-sm text-slate-300">
+                        {response.notes.postingChecklist.map((item, itemIndex) => (
+                          <li key={itemIndex} className="flex gap-3">
+                            <span className="mt-1 h-2 w-2 rounded-full bg-blue-400" />
+                            <span>{item}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -487,38 +1018,6 @@ function Slider({ min, max, value, step = 1, onChange }: SliderProps) {
   );
 }
 
-type ClipboardButtonProps = {
-  label: string;
-  payload: string;
-};
-
-function ClipboardButton({ label, payload }: ClipboardButtonProps) {
-  const [copied, setCopied] = useState(false);
-
-  return (
-    <button
-      type="button"
-      onClick={async () => {
-        try {
-          await navigator.clipboard.writeText(payload);
-          setCopied(true);
-          setTimeout(() => setCopied(false), 2000);
-        } catch (err) {
-          console.error("Failed to copy", err);
-        }
-      }}
-      className={clsx(
-        "rounded-full border px-3 py-2 text-xs font-semibold transition",
-        copied
-          ? "border-emerald-400 bg-emerald-500/20 text-emerald-100"
-          : "border-slate-700 bg-slate-900/70 text-slate-200 hover:border-blue-400 hover:text-blue-200",
-      )}
-    >
-      {copied ? "Copied!" : label}
-    </button>
-  );
-}
-
 type SkeletonLineProps = { width: string };
 
 function SkeletonLine({ width }: SkeletonLineProps) {
@@ -0,0 +1,143 @@
+"use client";
+
+import clsx from "clsx";
+import {
+  batchDays,
+  defaultPublishTimes,
+  MAX_BATCH_DAYS,
+  MAX_BATCH_STORIES,
+  MAX_POSTS_PER_DAY,
+} from "@/lib/calendar";
+import type { BatchPlan } from "@/lib/types";
+
+type BatchFieldsetProps = {
+  plan: BatchPlan | null;
+  onChange(plan: BatchPlan | null): void;
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+function toDateInput(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** A week starting tomorrow, in the browser's time zone. */
+function defaultPlan(): BatchPlan {
+  const start = new Date();
+  start.setDate(start.getDate() + 1);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 6);
+  return {
+    startDate: toDateInput(start),
+    endDate: toDateInput(end),
+    postsPerDay: 1,
+    times: defaultPublishTimes(1),
+    utcOffsetMinutes: -start.getTimezoneOffset(),
+  };
+}
+
+export function BatchFieldset({ plan, onChange }: BatchFieldsetProps) {
+  const days = plan ? batchDays(plan) : 0;
+  const total = plan ? days * plan.postsPerDay : 0;
+  const problem = !plan
+    ? null
+    : days < 1
+      ? "The end date is before the start date."
+      : days > MAX_BATCH_DAYS
+        ? `A batch covers at most ${MAX_BATCH_DAYS} days.`
+        : total > MAX_BATCH_STORIES
+          ? `A batch produces at most ${MAX_BATCH_STORIES} stories.`
+          : null;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(plan ? null : defaultPlan())}
+          className={clsx(
+            "rounded-full border px-3 py-1 text-xs font-medium transition",
+            plan
+              ? "border-blue-500 bg-blue-500/20 text-blue-100"
+              : "border-slate-800 bg-slate-950/40 text-slate-300 hover:border-blue-400/80",
+          )}
+        >
+          Fill a content calendar
+        </button>
+        <span className={clsx("text-xs", problem ? "text-red-300" : "text-slate-400")}>
+          {!plan
+            ? "Off: one package of the stories above."
+            : (problem ?? `${total} stories over ${days} days, no post used twice.`)}
+        </span>
+      </div>
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1 text-xs text-slate-300">
+              <span>First day</span>
+              <input
+                type="date"
+                value={plan.startDate}
+                onChange={(event) => onChange({ ...plan, startDate: event.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-slate-300">
+              <span>Last day</span>
+              <input
+                type="date"
+                value={plan.endDate}
+                min={plan.startDate}
+                onChange={(event) => onChange({ ...plan, endDate: event.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-slate-300">
+              <span>Posts per day</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_POSTS_PER_DAY}
+                value={plan.postsPerDay}
+                onChange={(event) => {
+                  const postsPerDay = Math.min(
+                    Math.max(Number(event.target.value) || 1, 1),
+                    MAX_POSTS_PER_DAY,
+                  );
+                  onChange({ ...plan, postsPerDay, times: defaultPublishTimes(postsPerDay) });
+                }}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {plan.times.map((time, index) => (
+              <label key={index} className="space-y-1 text-xs text-slate-300">
+                <span>Slot {index + 1}</span>
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(event) =>
+                    onChange({
+                      ...plan,
+                      times: plan.times.map((item, itemIndex) =>
+                        itemIndex === index ? event.target.value : item,
+                      ),
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400">
+            The timeframe widens automatically when it runs out of unused posts.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
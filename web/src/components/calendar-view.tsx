@@ -0,0 +1,65 @@
+"use client";
+
+import type { StoredRun } from "@/lib/types";
+
+type CalendarViewProps = {
+  run: StoredRun;
+};
+
+const dayFormat = new Intl.DateTimeFormat(undefined, {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+});
+const timeFormat = new Intl.DateTimeFormat(undefined, { hour: "2-digit", minute: "2-digit" });
+
+/** The run's stories by publish day, in the viewer's time zone. */
+export function CalendarView({ run }: CalendarViewProps) {
+  const scheduled = run.stories
+    .filter((story) => story.publishAt)
+    .sort((a, b) => Date.parse(a.publishAt as string) - Date.parse(b.publishAt as string));
+
+  const days = new Map<string, typeof scheduled>();
+  for (const story of scheduled) {
+    const day = dayFormat.format(new Date(story.publishAt as string));
+    days.set(day, [...(days.get(day) ?? []), story]);
+  }
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-emerald-500/30 bg-emerald-500/5 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold uppercase tracking-[0.2rem] text-emerald-200">
+            Content Calendar
+          </h3>
+          <p className="text-xs text-emerald-100/70">
+            {scheduled.length} stories from {run.calendar?.startDate} to {run.calendar?.endDate}
+          </p>
+        </div>
+        <a
+          href={`/api/runs/${run.id}/calendar`}
+          className="rounded-full border border-emerald-400/50 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-300"
+        >
+          Download .ics
+        </a>
+      </div>
+      <ol className="grid gap-2 sm:grid-cols-2">
+        {[...days].map(([day, stories]) => (
+          <li key={day} className="rounded-xl border border-slate-800 bg-slate-950/40 p-3">
+            <p className="text-xs font-semibold text-slate-200">{day}</p>
+            <ul className="mt-2 space-y-1">
+              {stories.map((story) => (
+                <li key={story.id} className="flex gap-2 text-xs text-slate-300">
+                  <span className="shrink-0 font-mono text-emerald-200">
+                    {timeFormat.format(new Date(story.publishAt as string))}
+                  </span>
+                  <span className="truncate">{story.hook}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+
+type ClipboardButtonProps = {
+  label: string;
+  payload: string;
+};
+
+export function ClipboardButton({ label, payload }: ClipboardButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <button
+      type="button"
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(payload);
+          setCopied(true);
+          setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+          console.error("Failed to copy", err);
+        }
+      }}
+      className={clsx(
+        "rounded-full border px-3 py-2 text-xs font-semibold transition",
+        copied
+          ? "border-emerald-400 bg-emerald-500/20 text-emerald-100"
+          : "border-slate-700 bg-slate-900/70 text-slate-200 hover:border-blue-400 hover:text-blue-200",
+      )}
+    >
+      {copied ? "Copied!" : label}
+    </button>
+  );
+}
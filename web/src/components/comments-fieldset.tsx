@@ -0,0 +1,64 @@
+"use client";
+
+import clsx from "clsx";
+import type { CommentOptions } from "@/lib/types";
+
+type CommentsFieldsetProps = {
+  options: CommentOptions;
+  onChange(options: CommentOptions): void;
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+const numbers = [
+  { key: "count", label: "Replies per post", min: 0, max: 20 },
+  { key: "depth", label: "Reply depth", min: 1, max: 5 },
+  { key: "minScore", label: "Min score", min: 0, max: undefined },
+] as const;
+
+export function CommentsFieldset({ options, onChange }: CommentsFieldsetProps) {
+  const update = (patch: Partial<CommentOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-sm">
+      <div className="grid grid-cols-3 gap-2">
+        {numbers.map((field) => (
+          <label key={field.key} className="space-y-1 text-xs text-slate-300">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={options[field.key]}
+              onChange={(event) => {
+                const value = Math.max(field.min, Number(event.target.value) || 0);
+                update({ [field.key]: field.max ? Math.min(value, field.max) : value });
+              }}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => update({ excludeBots: !options.excludeBots })}
+          className={clsx(
+            "rounded-full border px-3 py-1 text-xs font-medium transition",
+            options.excludeBots
+              ? "border-blue-500 bg-blue-500/20 text-blue-100"
+              : "border-slate-800 bg-slate-950/40 text-slate-300 hover:border-blue-400/80",
+          )}
+        >
+          Skip bot replies
+        </button>
+        <span className="text-xs text-slate-400">
+          {options.count === 0
+            ? "Stories use the post body only."
+            : "Deleted and pinned replies are always skipped."}
+        </span>
+      </div>
+    </div>
+  );
+}
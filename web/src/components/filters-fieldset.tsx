@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { RANKING_STRATEGIES, selftextBudget } from "@/lib/filters";
+import type { PostFilters, RankingStrategy } from "@/lib/types";
+
+type FiltersFieldsetProps = {
+  filters: PostFilters;
+  ranking: RankingStrategy;
+  duration: number;
+  onFiltersChange(filters: PostFilters): void;
+  onRankingChange(ranking: RankingStrategy): void;
+};
+
+const rankingLabels: Record<RankingStrategy, string> = {
+  score: "Top score",
+  comments: "Most comments",
+  engagement: "Engagement",
+  "duration-fit": "Fits duration",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+function parseKeywords(value: string) {
+  return value
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+export function FiltersFieldset({
+  filters,
+  ranking,
+  duration,
+  onFiltersChange,
+  onRankingChange,
+}: FiltersFieldsetProps) {
+  const [allowText, setAllowText] = useState(filters.allowKeywords.join(", "));
+  const [denyText, setDenyText] = useState(filters.denyKeywords.join(", "));
+
+  const update = (patch: Partial<PostFilters>) =>
+    onFiltersChange({ ...filters, ...patch });
+
+  const toggles = [
+    { key: "excludeNsfw", label: "Skip NSFW" },
+    { key: "excludeSpoilers", label: "Skip spoilers" },
+    { key: "excludeStickied", label: "Skip stickied" },
+    { key: "fitDuration", label: `Skip bodies that don't fit ${duration}s` },
+  ] as const;
+
+  const numbers = [
+    { key: "minScore", label: "Min score" },
+    { key: "minComments", label: "Min comments" },
+    { key: "minLength", label: "Min body chars" },
+  ] as const;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-sm">
+      <div className="flex flex-wrap gap-2">
+        {toggles.map((toggle) => (
+          <button
+            key={toggle.key}
+            type="button"
+            onClick={() => update({ [toggle.key]: !filters[toggle.key] })}
+            className={clsx(
+              "rounded-full border px-3 py-1 text-xs font-medium transition",
+              filters[toggle.key]
+                ? "border-blue-500 bg-blue-500/20 text-blue-100"
+                : "border-slate-800 bg-slate-950/40 text-slate-300 hover:border-blue-400/80",
+            )}
+          >
+            {toggle.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {numbers.map((field) => (
+          <label key={field.key} className="space-y-1 text-xs text-slate-300">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              min={0}
+              value={filters[field.key]}
+              onChange={(event) =>
+                update({ [field.key]: Math.max(0, Number(event.target.value) || 0) })
+              }
+              className={inputClassName}
+            />
+          </label>
+        ))}
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>Max body chars</span>
+          <input
+            type="number"
+            min={1}
+            value={filters.maxLength ?? ""}
+            placeholder="No limit"
+            onChange={(event) =>
+              update({
+                maxLength: event.target.value ? Math.max(1, Number(event.target.value)) : null,
+              })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          const budget = selftextBudget(duration);
+          update({ minLength: budget.min, maxLength: budget.max });
+        }}
+        className="text-xs font-medium text-blue-300 hover:text-blue-200"
+      >
+        Fit body length to {duration}s
+      </button>
+
+      <label className="block space-y-1 text-xs text-slate-300">
+        <span>Allow keywords (comma separated, any must match)</span>
+        <input
+          value={allowText}
+          onChange={(event) => setAllowText(event.target.value)}
+          onBlur={() => update({ allowKeywords: parseKeywords(allowText) })}
+          className={inputClassName}
+          placeholder="revenge, wedding"
+        />
+      </label>
+      <label className="block space-y-1 text-xs text-slate-300">
+        <span>Deny keywords (comma separated)</span>
+        <input
+          value={denyText}
+          onChange={(event) => setDenyText(event.target.value)}
+          onBlur={() => update({ denyKeywords: parseKeywords(denyText) })}
+          className={inputClassName}
+          placeholder="politics, suicide"
+        />
+      </label>
+
+      <label className="block space-y-1 text-xs text-slate-300">
+        <span>Rank candidates by</span>
+        <select
+          value={ranking}
+          onChange={(event) => onRankingChange(event.target.value as RankingStrategy)}
+          className={inputClassName}
+        >
+          {RANKING_STRATEGIES.map((strategy) => (
+            <option key={strategy} value={strategy}>
+              {rankingLabels[strategy]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
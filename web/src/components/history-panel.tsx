@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { parseRunPayload } from "@/lib/contract";
+import type { RunSummary, StoredRun } from "@/lib/types";
+
+type HistoryPanelProps = {
+  refreshKey: number;
+  activeRunId?: string;
+  onOpen(run: StoredRun): void;
+};
+
+export function HistoryPanel({ refreshKey, activeRunId, onOpen }: HistoryPanelProps) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [compared, setCompared] = useState<StoredRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/runs");
+        if (!res.ok) throw new Error(res.statusText);
+        const data = (await res.json()) as { runs: RunSummary[] };
+        if (!cancelled) setRuns(data.runs);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Could not load history");
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const fetchRun = async (id: string) => {
+    const res = await fetch(`/api/runs/${id}`);
+    if (!res.ok) {
+      const problem = await res.json().catch(() => null);
+      throw new Error(problem?.error ?? res.statusText);
+    }
+    const { run, issues } = parseRunPayload(await res.json());
+    if (!run) throw new Error(`Run does not match the expected schema: ${issues[0]}`);
+    return run;
+  };
+
+  const handleOpen = async (id: string) => {
+    setError(null);
+    try {
+      onOpen(await fetchRun(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open run");
+    }
+  };
+
+  const handleCompare = async (id: string) => {
+    setError(null);
+    if (compared.some((run) => run.id === id)) {
+      setCompared((prev) => prev.filter((run) => run.id !== id));
+      return;
+    }
+    try {
+      const run = await fetchRun(id);
+      setCompared((prev) => [...prev, run].slice(-2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load run");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/runs/${id}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) {
+      setError("Could not delete run");
+      return;
+    }
+    setRuns((prev) => prev.filter((run) => run.id !== id));
+    setCompared((prev) => prev.filter((run) => run.id !== id));
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <h2 className="text-lg font-semibold">Run History</h2>
+      <p className="text-sm text-slate-300">
+        Reopen a past package or pick two to compare side by side.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-2xl border border-red-400/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <ul className="mt-4 space-y-2">
+        {runs.length === 0 && (
+          <li className="text-sm text-slate-400">No runs saved yet.</li>
+        )}
+        {runs.map((run) => {
+          const isCompared = compared.some((item) => item.id === run.id);
+          return (
+            <li
+              key={run.id}
+              className={clsx(
+                "rounded-2xl border px-4 py-3 text-sm",
+                run.id === activeRunId
+                  ? "border-blue-500/60 bg-blue-500/10"
+                  : "border-slate-800 bg-slate-950/40",
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium text-slate-100">
+                    r/{run.settings.subreddit} · {run.settings.timeframe}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(run.generatedAt).toLocaleString()} · {run.hooks.length} stories
+                  </p>
+                </div>
+                <div className="flex gap-1 text-xs">
+                  <HistoryAction label="Open" onClick={() => handleOpen(run.id)} />
+                  <HistoryAction
+                    label={isCompared ? "Uncompare" : "Compare"}
+                    onClick={() => handleCompare(run.id)}
+                  />
+                  <HistoryAction label="Delete" onClick={() => handleDelete(run.id)} />
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {compared.length === 2 && (
+        <div className="mt-4 grid grid-cols-2 gap-3 text-xs text-slate-300">
+          {compared.map((run) => (
+            <div
+              key={run.id}
+              className="space-y-2 rounded-2xl border border-slate-800 bg-slate-950/60 p-3"
+            >
+              <p className="font-semibold text-slate-100">
+                r/{run.settings.subreddit} · {run.settings.timeframe}
+              </p>
+              <p>
+                {run.settings.duration}s · {run.settings.voiceProfile} ·{" "}
+                {run.settings.includeBroll ? "b-roll" : "no b-roll"}
+              </p>
+              <ol className="list-decimal space-y-1 pl-4">
+                {run.stories.map((story) => (
+                  <li key={story.id}>{story.hook}</li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+type HistoryActionProps = {
+  label: string;
+  onClick(): void;
+};
+
+function HistoryAction({ label, onClick }: HistoryActionProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-200"
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Preset, WorkflowSettings } from "@/lib/types";
+
+type PresetPickerProps = {
+  settings: WorkflowSettings;
+  onLoad(settings: WorkflowSettings): void;
+};
+
+export function PresetPicker({ settings, onLoad }: PresetPickerProps) {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/presets");
+        if (!res.ok) throw new Error(res.statusText);
+        const data = (await res.json()) as { presets: Preset[] };
+        if (!cancelled) setPresets(data.presets);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Could not load presets");
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setError(null);
+    const preset = presets.find((item) => item.id === id);
+    if (preset) {
+      setName(preset.name);
+      onLoad(preset.settings);
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const overwrite = selected && selected.name === name.trim();
+    try {
+      const res = await fetch(overwrite ? `/api/presets/${selected.id}` : "/api/presets", {
+        method: overwrite ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, settings }),
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      const preset = (await res.json()) as Preset;
+      setPresets((prev) =>
+        [...prev.filter((item) => item.id !== preset.id), preset].sort((a, b) =>
+          a.name.localeCompare(b.name),
+        ),
+      );
+      setSelectedId(preset.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save preset");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    setError(null);
+    const res = await fetch(`/api/presets/${selected.id}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) {
+      setError("Could not delete preset");
+      return;
+    }
+    setPresets((prev) => prev.filter((item) => item.id !== selected.id));
+    setSelectedId("");
+  };
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-sm">
+      <select
+        value={selectedId}
+        onChange={(event) => handleSelect(event.target.value)}
+        className="w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 outline-none focus:border-blue-400"
+      >
+        <option value="">Choose a channel preset…</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Preset name"
+          className="min-w-0 flex-1 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 outline-none focus:border-blue-400"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="rounded-xl border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-200 disabled:opacity-50"
+        >
+          {selected && selected.name === name.trim() ? "Update" : "Save"}
+        </button>
+        {selected && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="rounded-xl border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-red-400 hover:text-red-200"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
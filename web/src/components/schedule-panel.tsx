@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { dailyCron, describeCron } from "@/lib/cron";
+import type { Schedule, WorkflowSettings } from "@/lib/types";
+
+type SchedulePanelProps = {
+  settings: WorkflowSettings;
+};
+
+const REFRESH_INTERVAL_MS = 60_000;
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const inputClassName =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+function formatTime(value: string | null | undefined) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function SchedulePanel({ settings }: SchedulePanelProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [name, setName] = useState("");
+  const [time, setTime] = useState("07:00");
+  const [days, setDays] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/schedules");
+        if (!res.ok) throw new Error(res.statusText);
+        const data = (await res.json()) as { schedules: Schedule[] };
+        if (!cancelled) setSchedules(data.schedules);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Could not load schedules");
+        }
+      }
+    };
+
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const replace = (schedule: Schedule) =>
+    setSchedules((prev) =>
+      [...prev.filter((item) => item.id !== schedule.id), schedule].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+
+  const send = async (url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      return (await res.json()) as Schedule;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save schedule");
+      return null;
+    }
+  };
+
+  const handleCreate = async () => {
+    const schedule = await send("/api/schedules", {
+      method: "POST",
+      body: JSON.stringify({ name, cron: dailyCron(time, days), settings }),
+    });
+    if (schedule) {
+      replace(schedule);
+      setName("");
+    }
+  };
+
+  const handleTogglePause = async (schedule: Schedule) => {
+    const updated = await send(`/api/schedules/${schedule.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ paused: !schedule.paused }),
+    });
+    if (updated) replace(updated);
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/schedules/${id}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) {
+      setError("Could not delete schedule");
+      return;
+    }
+    setSchedules((prev) => prev.filter((schedule) => schedule.id !== id));
+  };
+
+  const toggleDay = (day: number) =>
+    setDays((prev) =>
+      prev.includes(day) ? prev.filter((item) => item !== day) : [...prev, day],
+    );
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <h2 className="text-lg font-semibold">Autopilot</h2>
+      <p className="text-sm text-slate-300">
+        Generate packages from the current settings on a schedule (server time).
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-2xl border border-red-400/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 space-y-3 rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-sm">
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={`r/${settings.subreddit} daily`}
+            className={inputClassName}
+          />
+          <input
+            type="time"
+            value={time}
+            onChange={(event) => setTime(event.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {weekdays.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-medium transition",
+                days.includes(day)
+                  ? "border-blue-500 bg-blue-500/20 text-blue-100"
+                  : "border-slate-800 bg-slate-950/40 text-slate-300 hover:border-blue-400/80",
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+          <span>{describeCron(dailyCron(time || "00:00", days))}</span>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!name.trim() || !time}
+            className="rounded-full bg-blue-500 px-4 py-2 font-semibold text-white transition hover:bg-blue-400 disabled:opacity-50"
+          >
+            Schedule current settings
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-4 space-y-2">
+        {schedules.length === 0 && (
+          <li className="text-sm text-slate-400">No schedules yet.</li>
+        )}
+        {schedules.map((schedule) => {
+          const lastRun = schedule.runs[0];
+          return (
+            <li
+              key={schedule.id}
+              className={clsx(
+                "space-y-1 rounded-2xl border px-4 py-3 text-sm",
+                schedule.paused
+                  ? "border-slate-800 bg-slate-950/20 opacity-70"
+                  : "border-slate-800 bg-slate-950/40",
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium text-slate-100">{schedule.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {describeCron(schedule.cron)} · r/{schedule.settings.subreddit} ·{" "}
+                    {schedule.settings.timeframe} · {schedule.settings.storyCount} stories
+                  </p>
+                </div>
+                <div className="flex gap-1 text-xs">
+                  <ScheduleAction
+                    label={schedule.paused ? "Resume" : "Pause"}
+                    onClick={() => handleTogglePause(schedule)}
+                  />
+                  <ScheduleAction label="Delete" onClick={() => handleDelete(schedule.id)} />
+                </div>
+              </div>
+              <p className="text-xs text-slate-400">
+                Next: {schedule.paused ? "paused" : formatTime(schedule.nextRunAt)}
+              </p>
+              <p
+                className={clsx(
+                  "text-xs",
+                  lastRun?.status === "failed" ? "text-red-300" : "text-slate-400",
+                )}
+              >
+                Last: {lastRun ? `${lastRun.status} · ${formatTime(lastRun.finishedAt)}` : "never"}
+                {lastRun?.error && ` — ${lastRun.error}`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+type ScheduleActionProps = {
+  label: string;
+  onClick(): void;
+};
+
+function ScheduleAction({ label, onClick }: ScheduleActionProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="rounded-full border border-slate-700 bg-slate-900/70 px-3 py-1 font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-200"
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import type { SubredditSource } from "@/lib/types";
+
+type SourcesFieldProps = {
+  sources: SubredditSource[];
+  onChange(sources: SubredditSource[]): void;
+};
+
+const inputClassName =
+  "rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3 text-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+export function SourcesField({ sources, onChange }: SourcesFieldProps) {
+  const update = (index: number, patch: Partial<SubredditSource>) =>
+    onChange(
+      sources.map((source, sourceIndex) =>
+        sourceIndex === index ? { ...source, ...patch } : source,
+      ),
+    );
+
+  const totalWeight = sources.reduce((acc, source) => acc + source.weight, 0);
+
+  return (
+    <div className="space-y-2">
+      {sources.map((source, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            value={source.subreddit}
+            onChange={(event) =>
+              update(index, { subreddit: event.target.value.replace(/^r\//, "") })
+            }
+            className={`${inputClassName} min-w-0 flex-1`}
+            placeholder="AskReddit"
+            autoComplete="off"
+          />
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={source.weight}
+            onChange={(event) =>
+              update(index, { weight: Math.max(1, Number(event.target.value) || 1) })
+            }
+            className={`${inputClassName} w-20`}
+            aria-label={`Weight for ${source.subreddit || "subreddit"}`}
+          />
+          <span className="w-10 text-right text-xs text-slate-400">
+            {totalWeight > 0 ? Math.round((source.weight / totalWeight) * 100) : 0}%
+          </span>
+          {sources.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(sources.filter((_, sourceIndex) => sourceIndex !== index))}
+              className="text-xs text-slate-400 hover:text-red-300"
+              aria-label={`Remove ${source.subreddit || "subreddit"}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {sources.length < 8 && (
+        <button
+          type="button"
+          onClick={() => onChange([...sources, { subreddit: "", weight: 1 }])}
+          className="text-xs font-medium text-blue-300 hover:text-blue-200"
+        >
+          + Add subreddit
+        </button>
+      )}
+    </div>
+  );
+}
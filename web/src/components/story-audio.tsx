@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import type { Story } from "@/lib/types";
+
+type StoryAudioProps = {
+  runId: string;
+  story: Story;
+  onRendered(story: Story): void;
+};
+
+export function StoryAudio({ runId, story, onRendered }: StoryAudioProps) {
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRender = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/runs/${runId}/audio`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storyId: story.id }),
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      onRendered((await res.json()) as Story);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Audio rendering failed");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {story.audio && (
+        <audio
+          key={story.audio.renderedAt}
+          controls
+          src={`${story.audio.url}&v=${encodeURIComponent(story.audio.renderedAt)}`}
+          className="w-full"
+        />
+      )}
+      <button
+        type="button"
+        onClick={handleRender}
+        disabled={isRendering}
+        className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold text-slate-200 transition hover:border-violet-400 hover:text-violet-200 disabled:opacity-50"
+      >
+        {isRendering
+          ? "Rendering voiceover…"
+          : story.audio
+            ? "Re-render voiceover"
+            : "Render voiceover"}
+      </button>
+      {story.audio && (
+        <p className="text-[11px] text-slate-400">
+          {story.audio.duration.toFixed(1)}s via {story.audio.engine}; beats re-timed to speech.
+        </p>
+      )}
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+    </div>
+  );
+}
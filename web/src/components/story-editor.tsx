@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import type { StoryEdit } from "@/lib/story-validation";
+import { retimeBeats } from "@/lib/timing";
+import type { Story, StoryBeat } from "@/lib/types";
+
+type StoryEditorProps = {
+  runId: string;
+  story: Story;
+  duration: number;
+  onSaved(story: Story): void;
+  onCancel(): void;
+};
+
+type RegenerableField = "hook" | "callToAction" | "soundtrackPrompt" | "thumbnailPrompt";
+
+type RegenerateTarget =
+  | { kind: "beat"; beatIndex: number }
+  | { kind: "field"; field: RegenerableField };
+
+const inputClassName =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-500/30";
+
+const storyFields: { field: RegenerableField; label: string }[] = [
+  { field: "hook", label: "Hook" },
+  { field: "callToAction", label: "Call to action" },
+  { field: "soundtrackPrompt", label: "Soundtrack prompt" },
+  { field: "thumbnailPrompt", label: "Thumbnail prompt" },
+];
+
+export function StoryEditor({ runId, story, duration, onSaved, onCancel }: StoryEditorProps) {
+  const [draft, setDraft] = useState<Story>(story);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [variant, setVariant] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const storyUrl = `/api/runs/${runId}/stories/${encodeURIComponent(story.id)}`;
+
+  const updateBeat = (index: number, patch: Partial<StoryBeat>) => {
+    setDraft((prev) => {
+      const beats = prev.beats.map((beat, beatIndex) =>
+        beatIndex === index ? { ...beat, ...patch } : beat,
+      );
+      return {
+        ...prev,
+        beats: patch.voiceover !== undefined ? retimeBeats(beats, duration) : beats,
+      };
+    });
+  };
+
+  // Only the edited parts are sent; blank caption lines are only an editing artifact.
+  const cleanDraft = (): StoryEdit => ({
+    title: draft.title,
+    hook: draft.hook,
+    callToAction: draft.callToAction,
+    soundtrackPrompt: draft.soundtrackPrompt,
+    thumbnailPrompt: draft.thumbnailPrompt,
+    keywords: draft.keywords,
+    beats: draft.beats.map((beat) => ({
+      ...beat,
+      captions: beat.captions.map((caption) => caption.trim()).filter(Boolean),
+    })),
+  });
+
+  const request = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      return (await res.json()) as Story;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRegenerate = async (key: string, target: RegenerateTarget) => {
+    const updated = await request(key, `${storyUrl}/regenerate`, {
+      method: "POST",
+      body: JSON.stringify({ target, variant, story: cleanDraft() }),
+    });
+    if (updated) {
+      setVariant((prev) => prev + 1);
+      setDraft(updated);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await request("save", storyUrl, {
+      method: "PUT",
+      body: JSON.stringify({ story: cleanDraft() }),
+    });
+    if (saved) onSaved(saved);
+  };
+
+  return (
+    <div className="space-y-4 text-xs text-slate-300">
+      <div className="grid gap-3 md:grid-cols-2">
+        {storyFields.map(({ field, label }) => (
+          <EditorField
+            key={field}
+            label={label}
+            busy={busy === field}
+            onRegenerate={() => handleRegenerate(field, { kind: "field", field })}
+          >
+            <textarea
+              value={draft[field]}
+              rows={2}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, [field]: event.target.value }))
+              }
+              className={inputClassName}
+            />
+          </EditorField>
+        ))}
+      </div>
+
+      {draft.beats.map((beat, index) => (
+        <div
+          key={index}
+          className="space-y-2 rounded-2xl border border-slate-800 bg-slate-950/60 p-4"
+        >
+          <header className="flex items-center justify-between gap-2 text-slate-400">
+            <span>
+              {beat.timestamp.toFixed(0)}s → {(beat.timestamp + beat.duration).toFixed(0)}s
+            </span>
+            <RegenerateButton
+              busy={busy === `beat-${index}`}
+              onClick={() => handleRegenerate(`beat-${index}`, { kind: "beat", beatIndex: index })}
+              label="Regenerate beat"
+            />
+          </header>
+          <input
+            value={beat.headline}
+            onChange={(event) => updateBeat(index, { headline: event.target.value })}
+            className={inputClassName}
+            aria-label={`Beat ${index + 1} headline`}
+          />
+          <textarea
+            value={beat.voiceover}
+            rows={3}
+            onChange={(event) => updateBeat(index, { voiceover: event.target.value })}
+            className={inputClassName}
+            aria-label={`Beat ${index + 1} voiceover`}
+          />
+          <div className="grid gap-2 md:grid-cols-2">
+            <textarea
+              value={beat.motionPrompt}
+              rows={2}
+              onChange={(event) => updateBeat(index, { motionPrompt: event.target.value })}
+              className={inputClassName}
+              aria-label={`Beat ${index + 1} motion direction`}
+            />
+            <textarea
+              value={beat.brollPrompt ?? ""}
+              rows={2}
+              placeholder="B-roll prompt"
+              onChange={(event) =>
+                updateBeat(index, { brollPrompt: event.target.value || undefined })
+              }
+              className={inputClassName}
+              aria-label={`Beat ${index + 1} b-roll prompt`}
+            />
+          </div>
+          <textarea
+            value={beat.captions.join("\n")}
+            rows={Math.max(beat.captions.length, 2)}
+            onChange={(event) =>
+              updateBeat(index, { captions: event.target.value.split("\n") })
+            }
+            className={inputClassName}
+            aria-label={`Beat ${index + 1} captions, one per line`}
+          />
+        </div>
+      ))}
+
+      {error && <p className="text-red-300">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={busy !== null}
+          className="rounded-full bg-blue-500 px-4 py-2 font-semibold text-white transition hover:bg-blue-400 disabled:opacity-50"
+        >
+          {busy === "save" ? "Saving…" : "Save story"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-slate-700 px-4 py-2 font-semibold text-slate-200 transition hover:border-slate-500"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type EditorFieldProps = {
+  label: string;
+  busy: boolean;
+  onRegenerate(): void;
+  children: ReactNode;
+};
+
+function EditorField({ label, busy, onRegenerate, children }: EditorFieldProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-slate-100">{label}</span>
+        <RegenerateButton busy={busy} onClick={onRegenerate} label={`Regenerate ${label.toLowerCase()}`} />
+      </div>
+      {children}
+    </div>
+  );
+}
+
+type RegenerateButtonProps = {
+  busy: boolean;
+  label: string;
+  onClick(): void;
+};
+
+function RegenerateButton({ busy, label, onClick }: RegenerateButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={busy}
+      title={label}
+      aria-label={label}
+      className="rounded-full border border-slate-700 px-2 py-0.5 text-[11px] font-semibold text-slate-200 transition hover:border-violet-400 hover:text-violet-200 disabled:opacity-50"
+    >
+      {busy ? "…" : "↻"}
+    </button>
+  );
+}
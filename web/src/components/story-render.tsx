@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RenderJob } from "@/lib/types";
+
+type StoryRenderProps = {
+  runId: string;
+  storyId: string;
+};
+
+const POLL_INTERVAL_MS = 1500;
+
+function isActive(job: RenderJob | null) {
+  return job?.status === "queued" || job?.status === "rendering";
+}
+
+export function StoryRender({ runId, storyId }: StoryRenderProps) {
+  const [job, setJob] = useState<RenderJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const res = await fetch(`/api/runs/${runId}/render?story=${encodeURIComponent(storyId)}`);
+      if (res.ok && !cancelled) setJob((await res.json()) as RenderJob);
+    };
+
+    load().catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, storyId]);
+
+  const jobId = job?.id;
+  const active = isActive(job);
+
+  useEffect(() => {
+    if (!jobId || !active) return;
+
+    const timer = setInterval(async () => {
+      const res = await fetch(`/api/renders/${jobId}`);
+      if (res.ok) setJob((await res.json()) as RenderJob);
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [jobId, active]);
+
+  const handleRender = async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/runs/${runId}/render`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storyId }),
+      });
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      setJob((await res.json()) as RenderJob);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start render");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {job?.status === "done" && job.videoUrl && (
+        <>
+          <video
+            controls
+            src={job.videoUrl}
+            className="aspect-[9/16] w-full rounded-xl border border-slate-800 bg-black"
+          />
+          <a
+            href={job.videoUrl}
+            download={`${storyId}.mp4`}
+            className="inline-block text-[11px] font-semibold text-blue-300 hover:text-blue-200"
+          >
+            ↓ Download MP4
+          </a>
+        </>
+      )}
+      {active && job && (
+        <div className="space-y-1">
+          <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+            <div
+              className="h-full bg-violet-500 transition-all"
+              style={{ width: `${Math.round(job.progress * 100)}%` }}
+            />
+          </div>
+          <p className="text-[11px] text-slate-400">
+            {job.status === "queued" ? "Queued…" : `Rendering ${Math.round(job.progress * 100)}%`}
+          </p>
+        </div>
+      )}
+      {job?.status === "failed" && (
+        <p className="text-[11px] text-red-300">Render failed: {job.error}</p>
+      )}
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+      <button
+        type="button"
+        onClick={handleRender}
+        disabled={active}
+        className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold text-slate-200 transition hover:border-violet-400 hover:text-violet-200 disabled:opacity-50"
+      >
+        {job?.status === "done" ? "Re-render draft video" : "Render draft video"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { LOCALE_LABELS } from "@/lib/translate";
+import type { Locale, Story } from "@/lib/types";
+
+type StoryTranslationsProps = {
+  runId: string;
+  story: Story;
+  /** null shows the English source. */
+  locale: Locale | null;
+  onLocaleChange(locale: Locale | null): void;
+  onTranslated(story: Story): void;
+};
+
+/** Locale switcher for a story card, with timing notes and a retranslate action. */
+export function StoryTranslations({
+  runId,
+  story,
+  locale,
+  onLocaleChange,
+  onTranslated,
+}: StoryTranslationsProps) {
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const translations = story.translations ?? [];
+  const current = translations.find((item) => item.locale === locale);
+  const hasStale = translations.some((item) => item.stale);
+
+  const handleRetranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/runs/${runId}/stories/${encodeURIComponent(story.id)}/translate`,
+        { method: "POST" },
+      );
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      onTranslated((await res.json()) as Story);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Translation failed");
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  if (translations.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {[null, ...translations.map((item) => item.locale)].map((option) => (
+          <button
+            key={option ?? "en"}
+            type="button"
+            onClick={() => onLocaleChange(option)}
+            className={clsx(
+              "rounded-full border px-3 py-1 text-[11px] font-semibold transition",
+              option === locale
+                ? "border-violet-400 bg-violet-500/20 text-violet-100"
+                : "border-slate-700 text-slate-300 hover:border-violet-400/70",
+            )}
+          >
+            {option ? LOCALE_LABELS[option] : "English"}
+          </button>
+        ))}
+        {hasStale && (
+          <button
+            type="button"
+            onClick={handleRetranslate}
+            disabled={isTranslating}
+            className="rounded-full border border-amber-400/50 px-3 py-1 text-[11px] font-semibold text-amber-100 transition hover:border-amber-300 disabled:opacity-50"
+          >
+            {isTranslating ? "Translating…" : "Retranslate edited script"}
+          </button>
+        )}
+      </div>
+      {current && (current.stale || current.retimed || current.overruns.length > 0) && (
+        <div className="space-y-1 rounded-2xl border border-amber-400/30 bg-amber-500/10 px-4 py-3 text-xs text-amber-100">
+          {current.stale && <p>The English script changed after this was translated.</p>}
+          {current.retimed && <p>Beats were re-timed to fit the longer translation.</p>}
+          {current.overruns.map((note) => (
+            <p key={note}>{note}</p>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import type { Story, VariantScore } from "@/lib/types";
+
+type StoryVariantsProps = {
+  runId: string;
+  story: Story;
+  onPromoted(story: Story): void;
+};
+
+const scoreLabels: Record<Exclude<keyof VariantScore, "total">, string> = {
+  length: "Length",
+  curiosity: "Curiosity",
+  question: "Question",
+  readingTime: "Reading time",
+};
+
+/** Ranked hook/title variants for a story, with one-click promotion to primary. */
+export function StoryVariants({ runId, story, onPromoted }: StoryVariantsProps) {
+  const [promoting, setPromoting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const variants = story.variants ?? [];
+
+  const handlePromote = async (variantId: string) => {
+    setPromoting(variantId);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/runs/${runId}/stories/${encodeURIComponent(story.id)}/variants`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ variantId }),
+        },
+      );
+      if (!res.ok) {
+        const problem = await res.json().catch(() => null);
+        throw new Error(problem?.error ?? res.statusText);
+      }
+      onPromoted((await res.json()) as Story);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not promote the variant");
+    } finally {
+      setPromoting(null);
+    }
+  };
+
+  if (variants.length < 2) return null;
+
+  return (
+    <details className="rounded-2xl border border-slate-800 bg-slate-950/40 p-4 text-xs text-slate-300">
+      <summary className="cursor-pointer font-semibold text-slate-100">
+        {variants.length} hook variants
+        {story.variantChoice && ` · primary ranked #${story.variantChoice.rank}`}
+      </summary>
+      <ol className="mt-3 space-y-3">
+        {variants.map((variant, index) => {
+          const isPrimary = story.variantChoice?.variantId === variant.id;
+          return (
+            <li
+              key={variant.id}
+              className={clsx(
+                "space-y-2 rounded-xl border p-3",
+                isPrimary ? "border-violet-400/60 bg-violet-500/10" : "border-slate-800",
+              )}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-slate-100">
+                    #{index + 1} · {variant.hook}
+                  </p>
+                  <p className="text-slate-400">{variant.title}</p>
+                </div>
+                <span className="shrink-0 rounded-full bg-slate-800 px-2 py-1 font-mono text-slate-100">
+                  {variant.score.total}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2 text-[11px] text-slate-400">
+                {(Object.keys(scoreLabels) as (keyof typeof scoreLabels)[]).map((key) => (
+                  <span key={key}>
+                    {scoreLabels[key]} {Math.round(variant.score[key] * 100)}%
+                  </span>
+                ))}
+              </div>
+              {variant.notes.map((note) => (
+                <p key={note} className="text-amber-200/80">
+                  {note}
+                </p>
+              ))}
+              {isPrimary ? (
+                <p className="text-[11px] font-semibold uppercase tracking-widest text-violet-200">
+                  Primary
+                </p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handlePromote(variant.id)}
+                  disabled={promoting !== null}
+                  className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold text-slate-200 transition hover:border-violet-400 hover:text-violet-200 disabled:opacity-50"
+                >
+                  {promoting === variant.id ? "Promoting…" : "Make primary"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {error && <p className="mt-2 text-[11px] text-red-300">{error}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { ClipboardButton } from "@/components/clipboard-button";
+import { formatPlatformCopy, PLATFORM_RULES } from "@/lib/platforms";
+import { LOCALE_LABELS } from "@/lib/translate";
+import type { Locale, Platform, StoredRun } from "@/lib/types";
+
+type UploadBlueprintProps = {
+  run: StoredRun;
+};
+
+type Tab = "general" | Platform | Locale;
+
+export function UploadBlueprint({ run }: UploadBlueprintProps) {
+  const [tab, setTab] = useState<Tab>("general");
+  const bundles = run.notes.platforms ?? [];
+  const platforms = [...new Set(bundles.map((bundle) => bundle.platform))];
+  const localized = run.notes.locales ?? [];
+  const storyHooks = new Map(run.stories.map((story) => [story.id, story.hook]));
+  const notes = tab === "general" ? run.notes : localized.find((item) => item.locale === tab);
+
+  const tabs: { id: Tab; label: string }[] = [
+    { id: "general", label: "General" },
+    ...localized.map((item) => ({ id: item.locale, label: LOCALE_LABELS[item.locale] })),
+    ...platforms.map((platform) => ({ id: platform, label: PLATFORM_RULES[platform].label })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      {tabs.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {tabs.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setTab(item.id)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-semibold transition",
+                tab === item.id
+                  ? "border-blue-400 bg-blue-500/30 text-blue-50"
+                  : "border-blue-400/30 text-blue-100/80 hover:border-blue-300",
+              )}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {notes ? (
+        <>
+          {tab !== "general" && (
+            <ClipboardButton
+              label={`Copy ${LOCALE_LABELS[tab as Locale]}`}
+              payload={`${notes.uploadCopy}\n\n${notes.hashtags.join(" ")}`}
+            />
+          )}
+          <p className="text-sm text-blue-50/80 whitespace-pre-line">{notes.uploadCopy}</p>
+          <div className="flex flex-wrap gap-2 text-xs text-blue-100/80">
+            {notes.hashtags.map((tag) => (
+              <span
+                key={tag}
+                className="rounded-full border border-blue-400/50 bg-blue-500/10 px-3 py-1"
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="space-y-3">
+          {bundles
+            .filter((bundle) => bundle.platform === tab)
+            .map((bundle) => (
+              <div
+                key={`${bundle.platform}-${bundle.storyId}`}
+                className="space-y-2 rounded-2xl border border-blue-400/20 bg-slate-950/40 p-4 text-sm text-blue-50/90"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-xs uppercase tracking-widest text-blue-100/60">
+                    {storyHooks.get(bundle.storyId) ?? bundle.storyId}
+                  </p>
+                  <ClipboardButton
+                    label={`Copy ${PLATFORM_RULES[bundle.platform].label}`}
+                    payload={formatPlatformCopy(bundle)}
+                  />
+                </div>
+                <p className="font-semibold text-blue-50">{bundle.title}</p>
+                <p className="whitespace-pre-line text-blue-50/80">{bundle.description}</p>
+                <p className="text-xs text-blue-100/70">
+                  <span className="font-semibold">Pinned comment:</span> {bundle.pinnedComment}
+                </p>
+                {[...bundle.violations, ...bundle.adjustments].map((note) => (
+                  <p
+                    key={note}
+                    className={clsx(
+                      "text-xs",
+                      bundle.violations.includes(note) ? "text-red-300" : "text-amber-200/80",
+                    )}
+                  >
+                    {note}
+                  </p>
+                ))}
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
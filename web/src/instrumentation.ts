@@ -0,0 +1,9 @@
+import { assertSessionConfig } from "@/lib/session";
+
+export async function register() {
+  assertSessionConfig();
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/scheduler");
+    startScheduler();
+  }
+}
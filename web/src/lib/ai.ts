@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { RedditPost } from "@/lib/reddit";
+import { WORDS_PER_SECOND } from "@/lib/timing";
+import type { Story, StoryOpening, WorkflowSettings } from "@/lib/types";
+
+type ScriptSettings = Pick<WorkflowSettings, "duration" | "voiceProfile" | "includeBroll">;
+
+const API_URL = (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/$/, "");
+const MODEL = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+
+/** Post bodies past this many characters are cut; a short only narrates a minute of it. */
+const MAX_BODY_CHARS = 6000;
+
+const voiceDirections: Record<WorkflowSettings["voiceProfile"], string> = {
+  narrator: "a calm, measured documentary narrator",
+  friendly: "a warm, chatty friend telling the story over coffee",
+  dramatic: "a tense, cinematic trailer voice",
+};
+
+const draftSchema = z.object({
+  title: z.string().min(1),
+  hook: z.string().min(1),
+  beats: z
+    .array(
+      z.object({
+        duration: z.number().positive(),
+        headline: z.string(),
+        voiceover: z.string().min(1),
+        motionPrompt: z.string(),
+        brollPrompt: z.string().optional(),
+        captions: z.array(z.string()).default([]),
+      }),
+    )
+    .min(1),
+  callToAction: z.string(),
+  soundtrackPrompt: z.string(),
+  thumbnailPrompt: z.string(),
+  keywords: z.array(z.string()).default([]),
+});
+
+const openingSchema = z.object({
+  hook: z.string().min(1),
+  title: z.string().min(1),
+  thumbnailPrompt: z.string().min(1),
+});
+
+function systemPrompt(settings: ScriptSettings) {
+  const words = Math.round(settings.duration * WORDS_PER_SECOND[settings.voiceProfile]);
+  return [
+    "You turn Reddit posts into scripts for vertical short-form videos.",
+    `Write for ${voiceDirections[settings.voiceProfile]}.`,
+    `The video runs ${settings.duration} seconds, so keep the whole voiceover under ${words} words.`,
+    "Split it into 3 to 6 beats whose durations add up to the video length.",
+    "Retell the post in your own words and never name the poster or anyone who replied.",
+    "A post without a body is a question: tell the story of its best replies instead.",
+    settings.includeBroll
+      ? "Give every beat a brollPrompt describing stock footage to cut to."
+      : "Do not include brollPrompt.",
+    "Answer with one JSON object with the keys title, hook, beats (duration, headline, voiceover,",
+    "motionPrompt, brollPrompt, captions), callToAction, soundtrackPrompt, thumbnailPrompt and keywords.",
+  ].join(" ");
+}
+
+function postPrompt(post: RedditPost) {
+  return [
+    `Subreddit: r/${post.subreddit}`,
+    `Title: ${post.title}`,
+    "",
+    post.selftext.slice(0, MAX_BODY_CHARS),
+  ].join("\n");
+}
+
+/**
+ * Sends one chat completion to the OpenAI-compatible endpoint configured by
+ * OPENAI_BASE_URL and returns the parsed JSON answer.
+ */
+async function completeJson(system: string, user: string): Promise<unknown> {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) throw new Error("Set OPENAI_API_KEY to script stories with the llm provider.");
+
+  const res = await fetch(`${API_URL}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+    body: JSON.stringify({
+      model: MODEL,
+      response_format: { type: "json_object" },
+      temperature: 0.8,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+    }),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(
+      `Model request failed with ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+    );
+  }
+
+  const body = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
+  const content = body.choices?.[0]?.message?.content;
+  if (!content) throw new Error("The model returned an empty answer.");
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error("The model did not answer with valid JSON.");
+  }
+}
+
+/**
+ * Scripts one story per post with the configured model. Beat timestamps are
+ * laid end to end from the durations the model chose; the validation step
+ * repairs anything that does not fit the requested length.
+ */
+export async function buildStoriesFromPosts(
+  posts: RedditPost[],
+  settings: ScriptSettings,
+): Promise<Story[]> {
+  const stories: Story[] = [];
+
+  for (const post of posts) {
+    const parsed = draftSchema.safeParse(
+      await completeJson(systemPrompt(settings), postPrompt(post)),
+    );
+    if (!parsed.success) {
+      throw new Error(`The model's script for ${post.id} did not match the story format.`);
+    }
+
+    const draft = parsed.data;
+    let timestamp = 0;
+    stories.push({
+      id: post.id,
+      title: draft.title,
+      sourceUrl: `https://www.reddit.com${post.permalink}`,
+      hook: draft.hook,
+      beats: draft.beats.map(({ brollPrompt, ...beat }) => {
+        const placed = {
+          ...beat,
+          timestamp,
+          ...(settings.includeBroll && brollPrompt ? { brollPrompt } : {}),
+        };
+        timestamp += beat.duration;
+        return placed;
+      }),
+      callToAction: draft.callToAction,
+      soundtrackPrompt: draft.soundtrackPrompt,
+      thumbnailPrompt: draft.thumbnailPrompt,
+      keywords: draft.keywords,
+    });
+  }
+
+  return stories;
+}
+
+/**
+ * Drafts an alternative opening for a finished story: only the hook, title and
+ * thumbnail prompt, so a variant costs one short completion instead of a
+ * whole new script.
+ */
+export async function draftOpening(
+  story: Story,
+  settings: Pick<WorkflowSettings, "voiceProfile">,
+  variant: number,
+): Promise<StoryOpening> {
+  const system = [
+    "You write openings for vertical short-form videos.",
+    `The voiceover is read by ${voiceDirections[settings.voiceProfile]}.`,
+    "Given a script, write a new hook (one spoken sentence of at most 14 words),",
+    "a title of at most 60 characters and a thumbnailPrompt describing the cover image.",
+    "Make all three clearly different from the current ones.",
+    "Answer with one JSON object with the keys hook, title and thumbnailPrompt.",
+  ].join(" ");
+  const user = [
+    `Alternative #${variant}.`,
+    `Current title: ${story.title}`,
+    `Current hook: ${story.hook}`,
+    `Current thumbnail: ${story.thumbnailPrompt}`,
+    "",
+    "Script:",
+    ...story.beats.map((beat) => beat.voiceover),
+  ].join("\n");
+
+  const parsed = openingSchema.safeParse(await completeJson(system, user));
+  if (!parsed.success) {
+    throw new Error(`The model's opening for ${story.id} did not match the expected format.`);
+  }
+  return parsed.data;
+}
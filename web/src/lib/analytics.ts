@@ -0,0 +1,338 @@
+import { WorkflowError } from "@/lib/errors";
+import { readAllRuns } from "@/lib/history";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/store";
+import type {
+  AnalyticsImportResult,
+  AnalyticsPlatform,
+  PerformanceDimension,
+  PerformanceGroup,
+  PerformanceRecord,
+  PerformanceReport,
+  Story,
+  StoredRun,
+} from "@/lib/types";
+
+export const ANALYTICS_PLATFORMS: AnalyticsPlatform[] = ["youtube", "tiktok"];
+
+/** Keyed by platform, run and story, so re-importing a newer export replaces the numbers. */
+type PerformanceStore = Record<string, PerformanceRecord>;
+
+const performanceFile = dataPath("performance.json");
+
+/** Put `ref:<story id>` in a video's title or description to match it without relying on the title. */
+const STORY_REF = /\bref:([\w-]+)/i;
+
+type Column =
+  | "title"
+  | "videoId"
+  | "publishedAt"
+  | "views"
+  | "likes"
+  | "retention"
+  | "averageView"
+  | "duration";
+
+/** Header names used by YouTube Studio and TikTok Studio exports, lower-cased. */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  title: ["video title", "title", "video description", "description"],
+  videoId: ["content", "video id", "video link", "link"],
+  publishedAt: ["video publish time", "publish time", "post time", "date posted", "posted on"],
+  views: ["views", "video views", "total views"],
+  likes: ["likes", "total likes"],
+  retention: ["average percentage viewed (%)", "average percentage viewed"],
+  averageView: ["average view duration", "average watch time", "average time watched"],
+  duration: ["duration", "video duration"],
+};
+
+/** RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const YOUTUBE_HEADERS = ["content", "average view duration", "average percentage viewed (%)"];
+const TIKTOK_HEADERS = ["total views", "video views", "average watch time", "average time watched"];
+
+/** Each platform names a few columns in a way the other does not. */
+export function detectPlatform(headers: string[]): AnalyticsPlatform | null {
+  const names = headers.map((header) => header.trim().toLowerCase());
+  if (names.some((name) => YOUTUBE_HEADERS.includes(name))) return "youtube";
+  if (names.some((name) => TIKTOK_HEADERS.includes(name))) return "tiktok";
+  return null;
+}
+
+function toNumber(value: string | undefined) {
+  if (!value) return null;
+  const number = Number(value.replace(/[,%\s]/g, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Accepts "0:01:23", "1:23", "83", "83s" or "83.5". */
+function toSeconds(value: string | undefined) {
+  if (!value?.trim()) return null;
+  const clean = value.trim().replace(/s$/i, "");
+  if (clean.includes(":")) {
+    const parts = clean.split(":").map(Number);
+    if (parts.some((part) => !Number.isFinite(part))) return null;
+    return parts.reduce((acc, part) => acc * 60 + part, 0);
+  }
+  return toNumber(clean);
+}
+
+function normalizeTitle(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/#\w+/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+type StoryMatch = { run: StoredRun; story: Story };
+
+/**
+ * Every title a story could have been uploaded under: its title and hook,
+ * each variant's, and the per-platform titles written for it.
+ */
+function uploadTitles(run: StoredRun, story: Story) {
+  const platformTitles = (run.notes.platforms ?? [])
+    .filter((bundle) => bundle.storyId === story.id)
+    .map((bundle) => bundle.title);
+  const variantTitles = (story.variants ?? []).flatMap((variant) => [variant.title, variant.hook]);
+  return [story.title, story.hook, ...variantTitles, ...platformTitles]
+    .map(normalizeTitle)
+    .filter(Boolean);
+}
+
+/**
+ * Indexes stored stories by id and upload title. A story remade in several
+ * runs keeps every candidate, newest first, so the match can pick the run
+ * that existed when the video was published.
+ */
+function indexStories(runs: StoredRun[]) {
+  const byId = new Map<string, StoryMatch[]>();
+  const byTitle = new Map<string, StoryMatch[]>();
+  const add = (index: Map<string, StoryMatch[]>, key: string, match: StoryMatch) => {
+    const list = index.get(key) ?? [];
+    if (!list.some((item) => item.run.id === match.run.id && item.story.id === match.story.id)) {
+      index.set(key, [...list, match]);
+    }
+  };
+
+  const newestFirst = [...runs].sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  for (const run of newestFirst) {
+    for (const story of run.stories) {
+      add(byId, story.id.toLowerCase(), { run, story });
+      for (const title of uploadTitles(run, story)) add(byTitle, title, { run, story });
+    }
+  }
+  return { byId, byTitle };
+}
+
+function pickMatch(candidates: StoryMatch[] | undefined, publishedAt?: string) {
+  if (!candidates?.length) return null;
+  const published = publishedAt ? Date.parse(publishedAt) : NaN;
+  if (Number.isNaN(published)) return candidates[0];
+  return (
+    candidates.find((candidate) => Date.parse(candidate.run.generatedAt) <= published) ??
+    candidates[0]
+  );
+}
+
+/** Platform titles get cut off, so a long enough prefix of a stored title also counts. */
+function matchByPrefix(index: Map<string, StoryMatch[]>, title: string) {
+  if (title.length < 20) return undefined;
+  for (const [key, matches] of index) {
+    if (key.startsWith(title) || title.startsWith(key)) return matches;
+  }
+  return undefined;
+}
+
+function subredditOf(story: Story, run: StoredRun) {
+  return story.sourceUrl.match(/\/r\/(\w+)/)?.[1] ?? run.settings.subreddit;
+}
+
+/**
+ * Reads a YouTube Studio or TikTok analytics CSV export, matches each video
+ * to a stored story by `ref:<story id>` or by title, and stores its numbers
+ * next to the settings and keywords that produced it.
+ */
+export async function importAnalytics(csv: string, platform?: AnalyticsPlatform | null) {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) throw new WorkflowError("The CSV file is empty.", 400);
+
+  const resolved = platform ?? detectPlatform(header);
+  if (!resolved) {
+    throw new WorkflowError(
+      "Could not tell which platform this export is from. Pass platform=youtube or platform=tiktok.",
+      400,
+    );
+  }
+
+  const names = header.map((name) => name.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Column[]).map((column) => [
+      column,
+      COLUMN_ALIASES[column].map((alias) => names.indexOf(alias)).find((index) => index !== -1),
+    ]),
+  ) as Record<Column, number | undefined>;
+  if (columns.title === undefined || columns.views === undefined) {
+    throw new WorkflowError("The export needs a video title column and a views column.", 400);
+  }
+
+  const { byId, byTitle } = indexStories(await readAllRuns());
+  const store = (await readJsonFile<PerformanceStore>(performanceFile)) ?? {};
+  const importedAt = new Date().toISOString();
+  const result: AnalyticsImportResult = { platform: resolved, rows: 0, matched: 0, unmatched: [] };
+
+  rows.forEach((cells, index) => {
+    const cell = (column: Column) => {
+      const position = columns[column];
+      return position === undefined ? undefined : cells[position]?.trim();
+    };
+    const videoTitle = cell("title") ?? "";
+    // YouTube puts a "Total" row above the videos.
+    if (!videoTitle || cell("videoId")?.toLowerCase() === "total") return;
+    result.rows += 1;
+
+    const publishedAt = cell("publishedAt");
+    const ref = cells.join(" ").match(STORY_REF)?.[1]?.toLowerCase();
+    const title = normalizeTitle(videoTitle);
+    const match = pickMatch(
+      (ref && byId.get(ref)) || byTitle.get(title) || matchByPrefix(byTitle, title),
+      publishedAt,
+    );
+    if (!match) {
+      result.unmatched.push({ row: index + 2, title: videoTitle });
+      return;
+    }
+
+    const { run, story } = match;
+    const averageViewSeconds = toSeconds(cell("averageView"));
+    const videoSeconds = toSeconds(cell("duration")) ?? run.settings.duration;
+    const retention =
+      toNumber(cell("retention")) ??
+      (averageViewSeconds === null
+        ? null
+        : Math.min((averageViewSeconds / videoSeconds) * 100, 100));
+
+    const record: PerformanceRecord = {
+      platform: resolved,
+      runId: run.id,
+      storyId: story.id,
+      videoId: cell("videoId") || undefined,
+      videoTitle,
+      publishedAt: publishedAt || undefined,
+      views: toNumber(cell("views")) ?? 0,
+      likes: toNumber(cell("likes")) ?? 0,
+      retention: retention === null ? null : Math.round(retention * 10) / 10,
+      averageViewSeconds,
+      subreddit: subredditOf(story, run),
+      hook: story.hook,
+      keywords: story.keywords,
+      settings: run.settings,
+      variantChoice: story.variantChoice,
+      importedAt,
+    };
+    store[`${resolved}:${run.id}:${story.id}`] = record;
+    result.matched += 1;
+  });
+
+  await writeJsonFile(performanceFile, store);
+  return result;
+}
+
+export async function listPerformance() {
+  const store = (await readJsonFile<PerformanceStore>(performanceFile)) ?? {};
+  return Object.values(store);
+}
+
+const dimensions: Record<PerformanceDimension, (record: PerformanceRecord) => string> = {
+  subreddit: (record) => `r/${record.subreddit}`,
+  timeframe: (record) => record.settings.timeframe,
+  voiceProfile: (record) => record.settings.voiceProfile,
+  duration: (record) => `${record.settings.duration}s`,
+};
+
+function average(values: number[]) {
+  return values.length === 0 ? null : values.reduce((acc, value) => acc + value, 0) / values.length;
+}
+
+function summarizeGroup(key: string, records: PerformanceRecord[]): PerformanceGroup {
+  const views = records.reduce((acc, record) => acc + record.views, 0);
+  const likes = records.reduce((acc, record) => acc + record.likes, 0);
+  const retention = average(
+    records.flatMap((record) => (record.retention === null ? [] : [record.retention])),
+  );
+  return {
+    key,
+    videos: records.length,
+    views,
+    averageViews: Math.round(views / records.length),
+    averageRetention: retention === null ? null : Math.round(retention * 10) / 10,
+    likeRate: views > 0 ? Math.round((likes / views) * 10_000) / 10_000 : null,
+  };
+}
+
+/** Groups imported videos by each generation setting, best average views first. */
+export function summarizePerformance(
+  records: PerformanceRecord[],
+  platform?: AnalyticsPlatform,
+): PerformanceReport {
+  const selected = platform ? records.filter((record) => record.platform === platform) : records;
+  const breakdowns = Object.fromEntries(
+    (Object.keys(dimensions) as PerformanceDimension[]).map((dimension) => {
+      const groups = new Map<string, PerformanceRecord[]>();
+      for (const record of selected) {
+        const key = dimensions[dimension](record);
+        groups.set(key, [...(groups.get(key) ?? []), record]);
+      }
+      return [
+        dimension,
+        [...groups]
+          .map(([key, group]) => summarizeGroup(key, group))
+          .sort((a, b) => b.averageViews - a.averageViews),
+      ];
+    }),
+  ) as Record<PerformanceDimension, PerformanceGroup[]>;
+
+  return {
+    videos: selected.length,
+    breakdowns,
+    topVideos: [...selected].sort((a, b) => b.views - a.views).slice(0, 10),
+  };
+}
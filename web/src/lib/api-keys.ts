@@ -0,0 +1,135 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import {
+  dataPath,
+  isSafeId,
+  listJsonFiles,
+  readJsonFile,
+  removeFile,
+  writeJsonFile,
+} from "@/lib/store";
+import type { ApiKey } from "@/lib/types";
+
+const KEY_PREFIX = "rsk_";
+
+export const apiKeyQuotasSchema = z.object({
+  runsPerDay: z.number().int().min(1).max(10_000),
+  storiesPerRun: z.number().int().min(1).max(50),
+});
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  quotas: apiKeyQuotasSchema.default({ runsPerDay: 20, storiesPerRun: 5 }),
+});
+
+export const apiKeyUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  quotas: apiKeyQuotasSchema.partial().optional(),
+  revoked: z.boolean().optional(),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeyInputSchema>;
+export type ApiKeyUpdate = z.infer<typeof apiKeyUpdateSchema>;
+
+/** Only a hash of the secret is stored; a leaked data directory does not leak keys. */
+type StoredApiKey = ApiKey & { hash: string };
+
+const keyFile = (id: string) => dataPath("api-keys", `${id}.json`);
+
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function toPublic(key: StoredApiKey): ApiKey {
+  const { id, name, prefix, quotas, createdAt, revokedAt, lastUsedAt } = key;
+  return { id, name, prefix, quotas, createdAt, revokedAt, lastUsedAt };
+}
+
+async function readKey(id: string) {
+  if (!isSafeId(id)) return null;
+  return readJsonFile<StoredApiKey>(keyFile(id));
+}
+
+/** Per-key write chains so a usage touch never undoes a concurrent revoke. */
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function mutateKey(id: string, change: (key: StoredApiKey) => StoredApiKey) {
+  const previous = pendingWrites.get(id) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const key = await readKey(id);
+    if (!key) return null;
+    const updated = change(key);
+    await writeJsonFile(keyFile(id), updated);
+    return updated;
+  });
+  pendingWrites.set(id, next.catch(() => undefined));
+  return next;
+}
+
+async function readAllKeys() {
+  const files = await listJsonFiles(dataPath("api-keys"));
+  const keys = await Promise.all(files.map((file) => readJsonFile<StoredApiKey>(file)));
+  return keys.filter((key): key is StoredApiKey => key !== null);
+}
+
+export async function listApiKeys() {
+  const keys = await readAllKeys();
+  return keys.map(toPublic).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getApiKey(id: string) {
+  const key = await readKey(id);
+  return key && toPublic(key);
+}
+
+/** Creates a key and returns its secret, which is not stored and cannot be shown again. */
+export async function createApiKey(input: ApiKeyInput) {
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const key: StoredApiKey = {
+    id: randomUUID(),
+    name: input.name,
+    prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    quotas: input.quotas,
+    createdAt: new Date().toISOString(),
+    hash: hashSecret(secret),
+  };
+  await writeJsonFile(keyFile(key.id), key);
+  return { key: toPublic(key), secret };
+}
+
+export async function updateApiKey(id: string, update: ApiKeyUpdate) {
+  const updated = await mutateKey(id, (key) => ({
+    ...key,
+    name: update.name ?? key.name,
+    quotas: { ...key.quotas, ...update.quotas },
+    revokedAt:
+      update.revoked === undefined
+        ? key.revokedAt
+        : update.revoked
+          ? (key.revokedAt ?? new Date().toISOString())
+          : undefined,
+  }));
+  return updated && toPublic(updated);
+}
+
+export async function deleteApiKey(id: string) {
+  if (!isSafeId(id)) return false;
+  await pendingWrites.get(id);
+  pendingWrites.delete(id);
+  return removeFile(keyFile(id));
+}
+
+/** Looks up the active key for a presented secret; revoked and unknown keys resolve to null. */
+export async function findApiKey(secret: string) {
+  if (!secret.startsWith(KEY_PREFIX)) return null;
+  const hash = Buffer.from(hashSecret(secret), "hex");
+  const keys = await readAllKeys();
+  const key = keys.find((candidate) => timingSafeEqual(Buffer.from(candidate.hash, "hex"), hash));
+  if (!key || key.revokedAt) return null;
+
+  const touched = await mutateKey(key.id, (current) => ({
+    ...current,
+    lastUsedAt: new Date().toISOString(),
+  }));
+  return touched && !touched.revokedAt ? toPublic(touched) : null;
+}
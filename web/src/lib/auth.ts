@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { findApiKey } from "@/lib/api-keys";
+import { SESSION_COOKIE, isAuthEnabled, verifySessionToken } from "@/lib/session";
+import type { ApiKey, ApiKeyQuotas, UsageEntry, UsageSummary } from "@/lib/types";
+import { finishRunUsage, getUsage, reserveRun, type UsageResult } from "@/lib/usage";
+
+/** Who is calling: a script with an API key, the browser UI, or anyone while auth is off. */
+export type Caller = { kind: "key"; key: ApiKey } | { kind: "session" } | { kind: "open" };
+
+type Authenticated<T> = { caller: T; response?: never } | { caller?: never; response: NextResponse };
+
+function presentedKey(request: Request) {
+  const header = request.headers.get("authorization");
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim();
+  return request.headers.get("x-api-key")?.trim() || null;
+}
+
+function sessionToken(request: Request) {
+  const cookies = request.headers.get("cookie") ?? "";
+  const match = cookies.match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+async function hasSession(request: Request) {
+  const token = sessionToken(request);
+  return !!token && verifySessionToken(token);
+}
+
+function unauthorized(message: string) {
+  return NextResponse.json(
+    { error: message },
+    { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="api"' } },
+  );
+}
+
+/**
+ * Resolves the caller of a route that spends model budget. A presented API key
+ * is always checked, even while auth is off, so its quotas still apply.
+ */
+export async function authenticate(request: Request): Promise<Authenticated<Caller>> {
+  const secret = presentedKey(request);
+  if (secret) {
+    const key = await findApiKey(secret);
+    return key ? { caller: { kind: "key", key } } : { response: unauthorized("Invalid or revoked API key.") };
+  }
+  if (!isAuthEnabled()) return { caller: { kind: "open" } };
+  if (await hasSession(request)) return { caller: { kind: "session" } };
+  return { response: unauthorized("Send an API key as a Bearer token or X-API-Key header.") };
+}
+
+/** Admin routes accept the UI session or ADMIN_TOKEN as a Bearer token, never an API key. */
+export async function authenticateAdmin(request: Request): Promise<Authenticated<"admin">> {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken && presentedKey(request) === adminToken) return { caller: "admin" };
+  if (!isAuthEnabled() || (await hasSession(request))) return { caller: "admin" };
+  return { response: unauthorized("Admin routes need a UI session or ADMIN_TOKEN.") };
+}
+
+/**
+ * Key management mints new budget, so it takes ADMIN_TOKEN only: no session,
+ * no API key, and nothing at all while ADMIN_TOKEN is unset.
+ */
+export async function authenticateAdminToken(request: Request): Promise<Authenticated<"admin">> {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken && presentedKey(request) === adminToken) return { caller: "admin" };
+  return {
+    response: unauthorized(
+      adminToken ? "Send ADMIN_TOKEN as a Bearer token." : "Set ADMIN_TOKEN to manage API keys.",
+    ),
+  };
+}
+
+/** The UI shares one ledger, so every session draws on the same daily runs. */
+const SESSION_LEDGER_ID = "session";
+
+const sessionQuotas: ApiKeyQuotas = {
+  runsPerDay: Number(process.env.SESSION_RUNS_PER_DAY) || 50,
+  storiesPerRun: Number(process.env.SESSION_STORIES_PER_RUN) || 5,
+};
+
+export function quotaHeaders(quotas: ApiKeyQuotas, summary: UsageSummary): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(quotas.runsPerDay),
+    "X-RateLimit-Remaining": String(Math.max(quotas.runsPerDay - summary.runsToday, 0)),
+    "X-RateLimit-Reset": String(Math.floor(Date.parse(summary.resetsAt) / 1000)),
+    "X-Stories-Per-Run-Limit": String(quotas.storiesPerRun),
+  };
+}
+
+type RunClaim =
+  | { response: NextResponse; headers?: never; finish?: never }
+  | {
+      response?: never;
+      headers: Record<string, string>;
+      /** Records what the run produced; pass null when it failed. */
+      finish(run: UsageResult | null): Promise<void>;
+    };
+
+/**
+ * Checks the caller's per-run story limit and takes one of its runs for today
+ * before any model call is made. Every route that calls the model claims a
+ * run, including the story routes that rewrite a single story. Keys are
+ * metered on their own quotas, UI sessions on the shared SESSION_RUNS_PER_DAY
+ * and SESSION_STORIES_PER_RUN; open access (auth off) is not metered. Batches
+ * fill a whole calendar in one run, so they pass their own `storyLimit` in
+ * place of the per-run limit.
+ */
+export async function claimRun(
+  caller: Caller,
+  storyCount: number,
+  route: UsageEntry["route"],
+  { storyLimit }: { storyLimit?: number } = {},
+): Promise<RunClaim> {
+  if (caller.kind === "open") return { headers: {}, finish: async () => undefined };
+  const { ledgerId, quotas, holder } =
+    caller.kind === "key"
+      ? { ledgerId: caller.key.id, quotas: caller.key.quotas, holder: "This key" }
+      : { ledgerId: SESSION_LEDGER_ID, quotas: sessionQuotas, holder: "The UI" };
+
+  const limit = storyLimit ?? quotas.storiesPerRun;
+  if (storyCount > limit) {
+    const usage = await getUsage(ledgerId);
+    return {
+      response: NextResponse.json(
+        { error: `${holder} may request at most ${limit} stories per ${route === "batch" ? "batch" : "run"}.` },
+        { status: 429, headers: usage ? quotaHeaders(quotas, usage.summary) : undefined },
+      ),
+    };
+  }
+
+  const { entry, summary } = await reserveRun(ledgerId, route, quotas.runsPerDay);
+  const headers = quotaHeaders(quotas, summary);
+
+  if (!entry) {
+    const retryAfter = Math.max(Math.ceil((Date.parse(summary.resetsAt) - Date.now()) / 1000), 1);
+    return {
+      response: NextResponse.json(
+        { error: `Daily quota of ${quotas.runsPerDay} runs used up; it resets at ${summary.resetsAt}.` },
+        { status: 429, headers: { ...headers, "Retry-After": String(retryAfter) } },
+      ),
+    };
+  }
+  return {
+    headers,
+    finish: (run) => finishRunUsage(ledgerId, entry.id, run),
+  };
+}
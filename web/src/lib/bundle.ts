@@ -0,0 +1,99 @@
+import { promises as fs } from "node:fs";
+import { attributionLine } from "@/lib/compliance";
+import { storySlug, toPromptSheet, toScriptMarkdown, toSrt, toWebVtt } from "@/lib/exports";
+import { latestRenderJob, renderVideoFile } from "@/lib/render";
+import { storyAudioFile } from "@/lib/tts";
+import type { Story, StoredRun } from "@/lib/types";
+import { zipStream, type ZipEntry } from "@/lib/zip";
+
+type BundleFile = {
+  name: string;
+  render(): Buffer | Promise<Buffer>;
+  store?: boolean;
+};
+
+type StoryFolder = { story: Story; folder: string; files: BundleFile[] };
+
+const text = (value: string) => Buffer.from(value, "utf8");
+
+function toSourceNotes(story: Story) {
+  const sections = [`# Source · ${story.title}`, `Original post: ${story.sourceUrl}`];
+  const attribution = attributionLine([story]);
+  if (attribution) sections.push(attribution);
+
+  const replies = story.beats.flatMap((beat) => (beat.comment ? [beat.comment] : []));
+  if (replies.length > 0) {
+    const list = replies.map((reply) => `- https://www.reddit.com${reply.permalink}`);
+    sections.push(`## Narrated replies\n\n${list.join("\n")}`);
+  }
+  return `${sections.join("\n\n")}\n`;
+}
+
+async function exists(file: string | null) {
+  if (!file) return null;
+  return (await fs.stat(file).catch(() => null))?.isFile() ? file : null;
+}
+
+/** Rendered media is looked up before the archive starts, so the manifest can list it. */
+async function storyFolder(run: StoredRun, story: Story, index: number): Promise<StoryFolder> {
+  const folder = `${String(index + 1).padStart(2, "0")}-${storySlug(story)}`;
+  const files: BundleFile[] = [
+    { name: "script.md", render: () => text(toScriptMarkdown(story)) },
+    { name: "captions.srt", render: () => text(toSrt(story)) },
+    { name: "captions.vtt", render: () => text(toWebVtt(story)) },
+    { name: "prompts.md", render: () => text(toPromptSheet(story)) },
+    { name: "source.md", render: () => text(toSourceNotes(story)) },
+  ];
+
+  const audio = await exists(storyAudioFile(run.id, story.id));
+  if (audio) files.push({ name: "voiceover.wav", render: () => fs.readFile(audio) });
+
+  const job = await latestRenderJob(run.id, story.id);
+  const video = job?.status === "done" ? await exists(renderVideoFile(job.id)) : null;
+  if (video) files.push({ name: "video.mp4", render: () => fs.readFile(video), store: true });
+
+  return { story, folder, files };
+}
+
+async function* bundleEntries(run: StoredRun, folders: StoryFolder[]): AsyncGenerator<ZipEntry> {
+  const modifiedAt = new Date(run.generatedAt);
+  const manifest = {
+    runId: run.id,
+    generatedAt: run.generatedAt,
+    postingChecklist: run.notes.postingChecklist,
+    hashtags: run.notes.hashtags,
+    stories: folders.map(({ story, folder, files }) => ({
+      id: story.id,
+      title: story.title,
+      publishAt: story.publishAt,
+      folder,
+      files: files.map((file) => file.name),
+    })),
+    payload: run,
+  };
+  yield { name: "manifest.json", data: text(JSON.stringify(manifest, null, 2)), modifiedAt };
+
+  for (const { folder, files } of folders) {
+    for (const file of files) {
+      yield {
+        name: `${folder}/${file.name}`,
+        data: await file.render(),
+        store: file.store,
+        modifiedAt,
+      };
+    }
+  }
+}
+
+/**
+ * Everything an editor needs for a run in one archive: a folder per story
+ * with its script, captions, prompt sheet, source credits and any rendered
+ * voiceover or video, plus a manifest holding the checklist, hashtags and the
+ * full payload.
+ */
+export async function runBundle(run: StoredRun) {
+  const folders = await Promise.all(
+    run.stories.map((story, index) => storyFolder(run, story, index)),
+  );
+  return zipStream(bundleEntries(run, folders));
+}
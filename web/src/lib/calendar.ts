@@ -0,0 +1,161 @@
+import { z } from "zod";
+import type { BatchPlan, Story, StoredRun, WorkflowSettings } from "@/lib/types";
+
+export const MAX_BATCH_DAYS = 31;
+export const MAX_BATCH_STORIES = 60;
+export const MAX_POSTS_PER_DAY = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Publish times that suit short-form feeds, by how many posts go out a day. */
+const DEFAULT_TIMES: Record<number, string[]> = {
+  1: ["18:00"],
+  2: ["12:00", "18:00"],
+  3: ["09:00", "13:00", "18:00"],
+  4: ["09:00", "12:00", "15:00", "18:00"],
+};
+
+export function defaultPublishTimes(postsPerDay: number) {
+  return DEFAULT_TIMES[postsPerDay] ?? DEFAULT_TIMES[1];
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected an HH:MM time");
+
+function dayNumber(date: string) {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+export function batchDays(plan: Pick<BatchPlan, "startDate" | "endDate">) {
+  return dayNumber(plan.endDate) - dayNumber(plan.startDate) + 1;
+}
+
+export const batchPlanSchema = z
+  .object({
+    startDate: dateSchema,
+    endDate: dateSchema,
+    postsPerDay: z.number().int().min(1).max(MAX_POSTS_PER_DAY),
+    times: z.array(timeSchema).max(MAX_POSTS_PER_DAY).optional(),
+    utcOffsetMinutes: z.number().int().min(-14 * 60).max(14 * 60).default(0),
+  })
+  .refine((plan) => batchDays(plan) >= 1, {
+    message: "The end date must not be before the start date",
+    path: ["endDate"],
+  })
+  .refine((plan) => batchDays(plan) <= MAX_BATCH_DAYS, {
+    message: `A batch covers at most ${MAX_BATCH_DAYS} days`,
+    path: ["endDate"],
+  })
+  .refine((plan) => batchDays(plan) * plan.postsPerDay <= MAX_BATCH_STORIES, {
+    message: `A batch produces at most ${MAX_BATCH_STORIES} stories`,
+    path: ["postsPerDay"],
+  })
+  .refine(
+    (plan) => plan.times === undefined || plan.times.length === plan.postsPerDay,
+    (plan) => ({
+      message: `Give one publish time per post: ${plan.times?.length} times for ${plan.postsPerDay} posts a day`,
+      path: ["times"],
+    }),
+  )
+  .transform(
+    (plan): BatchPlan => ({
+      ...plan,
+      times: [...(plan.times ?? defaultPublishTimes(plan.postsPerDay))].sort(),
+    }),
+  );
+
+/** Every slot of the plan as an ISO timestamp, in publishing order. */
+export function publishSlots(plan: BatchPlan) {
+  const slots: string[] = [];
+  const first = dayNumber(plan.startDate);
+  for (let day = 0; day < batchDays(plan); day += 1) {
+    for (const time of plan.times) {
+      const [hours, minutes] = time.split(":").map(Number);
+      const local = (first + day) * DAY_MS + (hours * 60 + minutes) * 60_000;
+      slots.push(new Date(local - plan.utcOffsetMinutes * 60_000).toISOString());
+    }
+  }
+  return slots;
+}
+
+/** Gives each story the next free slot, in the order the pipeline ranked them. */
+export function scheduleStories(plan: BatchPlan, stories: Story[]) {
+  const slots = publishSlots(plan);
+  return stories.map((story, index) => ({ ...story, publishAt: slots[index] }));
+}
+
+const TIMEFRAMES: WorkflowSettings["timeframe"][] = ["day", "week", "month", "year", "all"];
+
+/** The requested timeframe first, then each wider one, for filling a large batch. */
+export function widerTimeframes(timeframe: WorkflowSettings["timeframe"]) {
+  return TIMEFRAMES.slice(TIMEFRAMES.indexOf(timeframe));
+}
+
+/** The copy to paste when a slot comes up: the first platform's description, else the package copy. */
+export function slotUploadCopy(run: StoredRun, story: Story) {
+  const bundle = run.notes.platforms?.find((item) => item.storyId === story.id);
+  return bundle ? `${bundle.title}\n\n${bundle.description}` : `${story.hook}\n\n${run.notes.uploadCopy}`;
+}
+
+function icsDate(iso: string) {
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** RFC 5545 lines are folded at 75 octets; continuation lines start with a space. */
+function foldLine(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (new TextEncoder().encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** One 15-minute event per scheduled story, carrying its title and upload copy. */
+export function toICalendar(run: StoredRun) {
+  const events = run.stories
+    .filter((story) => story.publishAt)
+    .map((story) =>
+      [
+        "BEGIN:VEVENT",
+        `UID:${run.id}-${story.id}@reddit-shorts-workflow`,
+        `DTSTAMP:${icsDate(run.generatedAt)}`,
+        `DTSTART:${icsDate(story.publishAt as string)}`,
+        "DURATION:PT15M",
+        `SUMMARY:${icsText(`Publish: ${story.hook}`)}`,
+        `DESCRIPTION:${icsText(slotUploadCopy(run, story))}`,
+        `URL:${story.sourceUrl}`,
+        "END:VEVENT",
+      ].join("\n"),
+    );
+
+  return `${[
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//reddit-shorts-workflow//content calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(`Shorts r/${run.settings.subreddit}`)}`,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .join("\n")
+    .split("\n")
+    .map(foldLine)
+    .join("\r\n")}\r\n`;
+}
@@ -0,0 +1,118 @@
+import { extractKeywords, normalizeWhitespace } from "@/lib/text";
+import type { CommentOptions, RedditComment, Story } from "@/lib/types";
+
+export const DEFAULT_COMMENT_OPTIONS: CommentOptions = {
+  count: 5,
+  depth: 1,
+  minScore: 10,
+  excludeBots: true,
+};
+
+const DELETED_BODIES = new Set(["[deleted]", "[removed]"]);
+const BOT_AUTHOR = /(^automoderator$|bot$|_bot_?$)/i;
+const BOT_SIGNATURE = /\bI am a bot\b|\bthis action was performed automatically\b/i;
+
+type RawListing = { data?: { children?: { kind?: string; data?: RawComment }[] } };
+
+type RawComment = {
+  id?: string;
+  author?: string;
+  body?: string;
+  score?: number;
+  depth?: number;
+  permalink?: string;
+  stickied?: boolean;
+  replies?: RawListing | "";
+};
+
+/**
+ * Flattens Reddit's `/comments` response (post listing + comment listing) into
+ * comments down to `maxDepth` levels, where 1 means top-level replies only.
+ */
+export function flattenCommentListing(response: unknown, maxDepth: number) {
+  const comments: RedditComment[] = [];
+  const listing = Array.isArray(response) ? (response[1] as RawListing) : null;
+
+  const walk = (node: RawListing | "" | undefined, depth: number) => {
+    if (!node || depth > maxDepth) return;
+    for (const child of node.data?.children ?? []) {
+      const raw = child.data;
+      if (child.kind !== "t1" || !raw?.id) continue;
+      comments.push({
+        id: raw.id,
+        author: raw.author ?? "[deleted]",
+        body: raw.body ?? "",
+        score: raw.score ?? 0,
+        depth,
+        permalink: raw.permalink ?? "",
+        stickied: raw.stickied ?? false,
+      });
+      walk(raw.replies, depth + 1);
+    }
+  };
+
+  walk(listing ?? undefined, 1);
+  return comments;
+}
+
+export function isBotComment(comment: RedditComment) {
+  return BOT_AUTHOR.test(comment.author) || BOT_SIGNATURE.test(comment.body);
+}
+
+/** Drops deleted, pinned, low-score and (optionally) bot comments, best first. */
+export function selectComments(comments: RedditComment[], options: CommentOptions) {
+  return comments
+    .filter(
+      (comment) =>
+        comment.depth <= options.depth &&
+        !comment.stickied &&
+        !DELETED_BODIES.has(comment.body.trim()) &&
+        comment.author !== "[deleted]" &&
+        comment.score >= options.minScore &&
+        !(options.excludeBots && isBotComment(comment)),
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.count);
+}
+
+/** Appends the replies to a post body so a prompt built from the body sees them. */
+export function withCommentContext(selftext: string, comments: RedditComment[]) {
+  if (comments.length === 0) return selftext;
+  const replies = comments.map(
+    (comment, index) =>
+      `${index + 1}. u/${comment.author} (${comment.score} points): ${normalizeWhitespace(comment.body)}`,
+  );
+  return [selftext.trim(), "Top replies:", ...replies].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Attributes each uncited beat to the comment whose keywords it shares most,
+ * for providers that narrate replies without saying which one they used.
+ */
+export function citeBeats(story: Story, comments: RedditComment[]): Story {
+  if (comments.length === 0) return story;
+  const commentKeywords = comments.map(
+    (comment) => new Set(extractKeywords(comment.body, Infinity)),
+  );
+
+  return {
+    ...story,
+    beats: story.beats.map((beat) => {
+      if (beat.comment) return beat;
+      const words = extractKeywords(beat.voiceover, Infinity);
+      let best = -1;
+      let bestOverlap = 1;
+      commentKeywords.forEach((keywords, index) => {
+        const overlap = words.filter((word) => keywords.has(word)).length;
+        if (overlap > bestOverlap) {
+          best = index;
+          bestOverlap = overlap;
+        }
+      });
+      const comment = comments[best];
+      return comment
+        ? { ...beat, comment: { commentId: comment.id, author: comment.author, permalink: comment.permalink } }
+        : beat;
+    }),
+  };
+}
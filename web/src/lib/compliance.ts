@@ -0,0 +1,262 @@
+import { sourceSubreddit } from "@/lib/platforms";
+import type {
+  ComplianceFinding,
+  ComplianceOptions,
+  PackageReview,
+  ProfanityPolicy,
+  Story,
+  StoryReview,
+} from "@/lib/types";
+
+export const DEFAULT_COMPLIANCE: ComplianceOptions = {
+  profanity: "mask",
+};
+
+/** What each policy does with a profane word; `allow` skips the check. */
+const profanitySeverity: Record<ProfanityPolicy, ComplianceFinding["severity"] | null> = {
+  allow: null,
+  flag: "warning",
+  mask: "redacted",
+  block: "blocking",
+};
+
+export const PROFANITY_POLICIES = Object.keys(profanitySeverity) as [
+  ProfanityPolicy,
+  ...ProfanityPolicy[],
+];
+
+type Redaction = {
+  kind: "username" | "email" | "phone";
+  pattern: RegExp;
+  replacement: string;
+  label: string;
+};
+
+const REDACTIONS: Redaction[] = [
+  {
+    kind: "username",
+    pattern: /(?<![\w/])\/?u\/[A-Za-z0-9_-]{3,20}\b/g,
+    replacement: "a Redditor",
+    label: "a username",
+  },
+  {
+    kind: "email",
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+    replacement: "[email removed]",
+    label: "an email address",
+  },
+  {
+    kind: "phone",
+    pattern: /(?<!\d)(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g,
+    replacement: "[number removed]",
+    label: "a phone number",
+  },
+];
+
+/** Ways posts introduce people by name: "Sarah (29F)", "named Tom", "my sister Jess". */
+const NAME_PATTERNS = [
+  /\b([A-Z][a-z]{2,})\s*\((?:\d{1,2}\s*[MFmf]|[MFmf]\s*\d{1,2})\)/g,
+  /\b(?:named|called)\s+([A-Z][a-z]{2,})\b/g,
+  /\bmy\s+(?:wife|husband|partner|boyfriend|girlfriend|fianc[eé]e?|ex|sister|brother|mom|dad|mother|father|son|daughter|cousin|aunt|uncle|friend|boss|coworker|roommate|neighbou?r)\s*,?\s+([A-Z][a-z]{2,})\b/g,
+];
+
+/** Capitalised words the relation pattern can pick up at the start of a clause. */
+const NOT_NAMES = new Set(
+  "and but then when who what where why how this that she he they we it its so because after before while also just".split(
+    " ",
+  ),
+);
+
+const PROFANITY =
+  /\b(f+u+c+k\w*|motherf\w*|sh[i1]t\w*|bullshit|b[i1]tch\w*|bastards?|assholes?|dickheads?|cunts?|piss(?:ed)?|wank\w*|twats?)\b/gi;
+
+/** Statements that tend to get a Short age-restricted, demonetised or struck. */
+const CLAIMS: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /\b(suicid\w*|kill(?:ed|ing)?\s+(?:myself|himself|herself|themselves)|self[- ]harm)\b/i,
+    message: "mentions suicide or self-harm; add a content advisory or cut the line.",
+  },
+  {
+    pattern: /\b(cures?|miracle treatment|doctors hate|guaranteed to)\b/i,
+    message: "reads as a medical or guaranteed-outcome claim.",
+  },
+  {
+    pattern: /\b(100% true|true story|this really happened|confirmed (?:true|real))\b/i,
+    message: "presents an unverified Reddit post as fact.",
+  },
+];
+
+type TextField = { field: string; text: string };
+
+function storyFields(story: Story): TextField[] {
+  return [
+    { field: "Title", text: story.title },
+    { field: "Hook", text: story.hook },
+    { field: "Call to action", text: story.callToAction },
+    ...story.beats.flatMap((beat, index) => [
+      { field: `Beat ${index + 1} headline`, text: beat.headline },
+      { field: `Beat ${index + 1} voiceover`, text: beat.voiceover },
+      ...beat.captions.map((caption, captionIndex) => ({
+        field: `Beat ${index + 1} caption ${captionIndex + 1}`,
+        text: caption,
+      })),
+    ]),
+  ];
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Names introduced anywhere in the story, plus the usernames we already know. */
+function collectNames(fields: TextField[], knownNames: string[]) {
+  const names = new Set(knownNames.filter((name) => name.length >= 3 && name !== "[deleted]"));
+  for (const { text } of fields) {
+    for (const pattern of NAME_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        if (!NOT_NAMES.has(match[1].toLowerCase())) names.add(match[1]);
+      }
+    }
+  }
+  return [...names];
+}
+
+function maskWord(word: string) {
+  return `${word[0]}${"*".repeat(word.length - 1)}`;
+}
+
+function reviewText(
+  { field, text }: TextField,
+  names: RegExp | null,
+  options: ComplianceOptions,
+  findings: ComplianceFinding[],
+) {
+  let next = text;
+
+  for (const redaction of REDACTIONS) {
+    const matches = next.match(redaction.pattern);
+    if (!matches) continue;
+    next = next.replace(redaction.pattern, redaction.replacement);
+    findings.push({
+      kind: redaction.kind,
+      severity: "redacted",
+      field,
+      message: `Redacted ${matches.length > 1 ? `${matches.length} × ${redaction.label}` : redaction.label} from ${field.toLowerCase()}.`,
+    });
+  }
+
+  const nameMatches = names ? next.match(names) : null;
+  if (names && nameMatches) {
+    next = next.replace(names, (name) => `${name[0].toUpperCase()}.`);
+    findings.push({
+      kind: "name",
+      severity: "redacted",
+      field,
+      message: `Shortened ${nameMatches.length > 1 ? `${nameMatches.length} names` : "a name"} to an initial in ${field.toLowerCase()}.`,
+    });
+  }
+
+  const severity = profanitySeverity[options.profanity];
+  const swears = severity ? next.match(PROFANITY) : null;
+  if (severity && swears) {
+    if (options.profanity === "mask") next = next.replace(PROFANITY, maskWord);
+    findings.push({
+      kind: "profanity",
+      severity,
+      field,
+      message:
+        options.profanity === "mask"
+          ? `Masked ${swears.length} profane word${swears.length > 1 ? "s" : ""} in ${field.toLowerCase()}.`
+          : `${field} contains profanity (${swears.map(maskWord).join(", ")}).`,
+    });
+  }
+
+  for (const claim of CLAIMS) {
+    if (claim.pattern.test(next)) {
+      findings.push({ kind: "claim", severity: "warning", field, message: `${field} ${claim.message}` });
+    }
+  }
+
+  return next;
+}
+
+function reviewStatus(findings: ComplianceFinding[]): StoryReview["status"] {
+  if (findings.some((finding) => finding.severity === "blocking")) return "blocked";
+  if (findings.some((finding) => finding.severity === "warning")) return "warning";
+  return findings.length > 0 ? "redacted" : "clear";
+}
+
+/**
+ * Redacts usernames, emails, phone numbers and personal names from every
+ * on-screen and spoken field of a story, applies the profanity policy, and
+ * flags risky claims. `knownNames` are the post and reply authors, which are
+ * redacted even when written without the u/ prefix.
+ */
+export function reviewStory(
+  story: Story,
+  options: ComplianceOptions,
+  knownNames: string[] = [],
+): Story {
+  const findings: ComplianceFinding[] = [];
+  const names = collectNames(storyFields(story), knownNames);
+  const namePattern =
+    names.length > 0 ? new RegExp(`\\b(?:${names.map(escapeRegExp).join("|")})\\b`, "g") : null;
+  const review = (field: string, text: string) =>
+    reviewText({ field, text }, namePattern, options, findings);
+
+  const reviewed: Story = {
+    ...story,
+    title: review("Title", story.title),
+    hook: review("Hook", story.hook),
+    callToAction: review("Call to action", story.callToAction),
+    beats: story.beats.map((beat, index) => ({
+      ...beat,
+      headline: review(`Beat ${index + 1} headline`, beat.headline),
+      voiceover: review(`Beat ${index + 1} voiceover`, beat.voiceover),
+      captions: beat.captions.map((caption, captionIndex) =>
+        review(`Beat ${index + 1} caption ${captionIndex + 1}`, caption),
+      ),
+    })),
+  };
+
+  return { ...reviewed, review: { status: reviewStatus(findings), findings } };
+}
+
+/** Re-reviews an edited story; reply authors are known from its beat citations. */
+export function reviewEditedStory(story: Story, options: ComplianceOptions = DEFAULT_COMPLIANCE) {
+  const authors = story.beats.flatMap((beat) => (beat.comment ? [beat.comment.author] : []));
+  return reviewStory(story, options, authors);
+}
+
+/** A package is ready once none of its stories has a blocking finding. */
+export function summarizeReview(stories: Story[]): PackageReview {
+  const blockedStories = stories.filter((story) => story.review?.status === "blocked").length;
+  const warnings = stories.reduce(
+    (total, story) =>
+      total + (story.review?.findings.filter((finding) => finding.severity === "warning").length ?? 0),
+    0,
+  );
+  return { ready: blockedStories === 0, blockedStories, warnings };
+}
+
+/** Credits the source subreddits, taken from each story's source link. */
+export function attributionLine(stories: Story[]) {
+  const subreddits = [
+    ...new Set(
+      stories
+        .map(sourceSubreddit)
+        .filter((name): name is string => !!name),
+    ),
+  ];
+  if (subreddits.length === 0) return "";
+  const list = subreddits.map((name) => `r/${name}`);
+  const sources =
+    list.length > 1 ? `${list.slice(0, -1).join(", ")} and ${list[list.length - 1]}` : list[0];
+  return `Adapted from posts on ${sources}. Usernames and personal details have been removed.`;
+}
+
+export function withAttribution(uploadCopy: string, stories: Story[]) {
+  const line = attributionLine(stories);
+  if (!line || uploadCopy.includes(line)) return uploadCopy;
+  return uploadCopy.trim() ? `${uploadCopy.trim()}\n\n${line}` : line;
+}
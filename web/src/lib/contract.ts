@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { DEFAULT_COMMENT_OPTIONS } from "@/lib/comments";
+import { DEFAULT_COMPLIANCE, PROFANITY_POLICIES } from "@/lib/compliance";
+import { WorkflowError } from "@/lib/errors";
+import { DEFAULT_FILTERS, RANKING_STRATEGIES } from "@/lib/filters";
+import { PLATFORMS } from "@/lib/platforms";
+import { WORDS_PER_SECOND } from "@/lib/timing";
+import { LOCALES } from "@/lib/translate";
+import type { StoredRun, WorkflowSettings } from "@/lib/types";
+import { MAX_HOOK_VARIANTS } from "@/lib/variants";
+
+/**
+ * Version of the run JSON served by the API and saved to disk. Bump it on any
+ * change that could break a consumer: a removed or renamed field, a narrowed
+ * type, or a new required field.
+ */
+export const SCHEMA_VERSION = 1;
+
+export const postFiltersSchema = z.object({
+  excludeNsfw: z.boolean(),
+  excludeSpoilers: z.boolean(),
+  excludeStickied: z.boolean(),
+  minScore: z.number().int().min(0),
+  minComments: z.number().int().min(0),
+  minLength: z.number().int().min(0),
+  maxLength: z.number().int().positive().nullable(),
+  fitDuration: z.boolean().default(false),
+  allowKeywords: z.array(z.string().trim().min(1)).max(50),
+  denyKeywords: z.array(z.string().trim().min(1)).max(50),
+});
+
+export const subredditSourceSchema = z.object({
+  subreddit: z
+    .string()
+    .trim()
+    .regex(/^\w{2,21}$/, "Subreddit names are 2-21 letters, digits or underscores"),
+  weight: z.number().positive().max(100),
+});
+
+export const commentOptionsSchema = z.object({
+  count: z.number().int().min(0).max(20),
+  depth: z.number().int().min(1).max(5),
+  minScore: z.number().int().min(0),
+  excludeBots: z.boolean(),
+});
+
+export const complianceOptionsSchema = z.object({
+  profanity: z.enum(PROFANITY_POLICIES),
+});
+
+const providerIdSchema = z.enum(["llm", "template"]);
+
+/**
+ * Settings as recorded on a run; fields added after the first release default
+ * for older runs. Requests are validated against this schema too (see
+ * request.ts), so every option and its default is declared only here.
+ */
+export const runSettingsSchema = z.object({
+  subreddit: z.string(),
+  sources: z.array(subredditSourceSchema).max(8).default([]),
+  timeframe: z.enum(["day", "week", "month", "year", "all"]),
+  storyCount: z.number().int().positive(),
+  duration: z.number().positive(),
+  voiceProfile: z.enum(
+    Object.keys(WORDS_PER_SECOND) as [
+      WorkflowSettings["voiceProfile"],
+      ...WorkflowSettings["voiceProfile"][],
+    ],
+  ),
+  includeBroll: z.boolean(),
+  allowRepeats: z.boolean().default(false),
+  filters: postFiltersSchema.default(DEFAULT_FILTERS),
+  ranking: z.enum(RANKING_STRATEGIES).default("score"),
+  comments: commentOptionsSchema.default(DEFAULT_COMMENT_OPTIONS),
+  platforms: z.array(z.enum(PLATFORMS)).min(1).default([...PLATFORMS]),
+  compliance: complianceOptionsSchema.default(DEFAULT_COMPLIANCE),
+  locales: z.array(z.enum(LOCALES)).max(LOCALES.length).default([]),
+  hookVariants: z.number().int().min(0).max(MAX_HOOK_VARIANTS).default(0),
+  provider: providerIdSchema.optional(),
+});
+
+const storyValidationSchema = z.object({
+  status: z.enum(["valid", "repaired", "flagged"]),
+  repairs: z.array(z.string()),
+  violations: z.array(z.string()),
+});
+
+const storyReviewSchema = z.object({
+  status: z.enum(["clear", "redacted", "warning", "blocked"]),
+  findings: z.array(
+    z.object({
+      kind: z.enum(["username", "email", "phone", "name", "profanity", "claim"]),
+      severity: z.enum(["redacted", "warning", "blocking"]),
+      field: z.string(),
+      message: z.string(),
+    }),
+  ),
+});
+
+const storyTranslationSchema = z.object({
+  locale: z.enum(LOCALES),
+  hook: z.string(),
+  callToAction: z.string(),
+  beats: z.array(
+    z.object({
+      timestamp: z.number(),
+      duration: z.number(),
+      voiceover: z.string(),
+      captions: z.array(z.string()),
+    }),
+  ),
+  retimed: z.boolean(),
+  overruns: z.array(z.string()),
+  stale: z.boolean().optional(),
+});
+
+const variantScoreSchema = z.object({
+  total: z.number(),
+  length: z.number(),
+  curiosity: z.number(),
+  question: z.number(),
+  readingTime: z.number(),
+});
+
+const storyVariantSchema = z.object({
+  id: z.string(),
+  hook: z.string(),
+  title: z.string(),
+  thumbnailPrompt: z.string(),
+  score: variantScoreSchema,
+  notes: z.array(z.string()),
+});
+
+const variantChoiceSchema = z.object({
+  variantId: z.string(),
+  rank: z.number().int().positive(),
+  score: z.number(),
+  chosenBy: z.enum(["generator", "editor"]),
+  chosenAt: z.string(),
+});
+
+const storyAudioSchema = z.object({
+  url: z.string(),
+  engine: z.string(),
+  duration: z.number().nonnegative(),
+  renderedAt: z.string(),
+});
+
+const storyBeatContractSchema = z.object({
+  timestamp: z.number(),
+  duration: z.number(),
+  headline: z.string(),
+  voiceover: z.string(),
+  motionPrompt: z.string(),
+  brollPrompt: z.string().optional(),
+  captions: z.array(z.string()),
+  comment: z
+    .object({ commentId: z.string(), author: z.string(), permalink: z.string() })
+    .optional(),
+});
+
+/**
+ * The shape of a story, not its quality: a story flagged by validation is
+ * still a valid part of the contract, with its problems listed in `validation`.
+ */
+export const storyContractSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string(),
+    sourceUrl: z.string(),
+    hook: z.string(),
+    beats: z.array(storyBeatContractSchema),
+    callToAction: z.string(),
+    soundtrackPrompt: z.string(),
+    thumbnailPrompt: z.string(),
+    keywords: z.array(z.string()),
+    provider: providerIdSchema.optional(),
+    validation: storyValidationSchema.optional(),
+    review: storyReviewSchema.optional(),
+    translations: z.array(storyTranslationSchema).optional(),
+    variants: z.array(storyVariantSchema).optional(),
+    variantChoice: variantChoiceSchema.optional(),
+    audio: storyAudioSchema.optional(),
+    publishAt: z.string().optional(),
+  })
+  .passthrough();
+
+const platformCopySchema = z.object({
+  storyId: z.string(),
+  platform: z.enum(PLATFORMS),
+  title: z.string(),
+  description: z.string(),
+  hashtags: z.array(z.string()),
+  pinnedComment: z.string(),
+  adjustments: z.array(z.string()),
+  violations: z.array(z.string()),
+});
+
+export const storedRunSchema = z.object({
+  schemaVersion: z
+    .number()
+    .int()
+    .default(SCHEMA_VERSION)
+    .refine((version) => version === SCHEMA_VERSION, {
+      message: `Expected schema version ${SCHEMA_VERSION}`,
+    }),
+  id: z.string().min(1),
+  generatedAt: z.string(),
+  settings: runSettingsSchema,
+  stories: z.array(storyContractSchema),
+  notes: z.object({
+    postingChecklist: z.array(z.string()),
+    uploadCopy: z.string(),
+    hashtags: z.array(z.string()),
+    platforms: z.array(platformCopySchema).optional(),
+    locales: z
+      .array(
+        z.object({
+          locale: z.enum(LOCALES),
+          uploadCopy: z.string(),
+          hashtags: z.array(z.string()),
+        }),
+      )
+      .optional(),
+  }),
+  selection: z
+    .object({
+      candidates: z.number().int().min(0),
+      skippedDuplicates: z.number().int().min(0),
+      rejected: z.array(
+        z.object({ postId: z.string(), title: z.string(), reasons: z.array(z.string()) }),
+      ),
+    })
+    .optional(),
+  review: z
+    .object({
+      ready: z.boolean(),
+      blockedStories: z.number().int().min(0),
+      warnings: z.number().int().min(0),
+    })
+    .optional(),
+  calendar: z
+    .object({
+      startDate: z.string(),
+      endDate: z.string(),
+      postsPerDay: z.number().int().positive(),
+      times: z.array(z.string()),
+      utcOffsetMinutes: z.number().int(),
+    })
+    .optional(),
+});
+
+/** A run that does not match the published schema; a bug on our side, never the caller's. */
+export class ContractError extends WorkflowError {
+  constructor(readonly issues: string[]) {
+    super(`Run does not match schema v${SCHEMA_VERSION}: ${issues.slice(0, 3).join("; ")}`, 500);
+    this.name = "ContractError";
+  }
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${issue.path.join(".") || "run"}: ${issue.message}`);
+}
+
+/**
+ * Checks a run against the contract before it is saved or served, filling
+ * defaults for runs saved by older versions. Typed both ways so the schema
+ * and `StoredRun` cannot drift apart without a compile error.
+ */
+export function enforceRunContract(run: StoredRun): StoredRun {
+  const input: z.input<typeof storedRunSchema> = run;
+  const parsed = storedRunSchema.safeParse(input);
+  if (!parsed.success) throw new ContractError(describeIssues(parsed.error));
+  return parsed.data;
+}
+
+/** For clients: validates run JSON from the API, reporting what does not match. */
+export function parseRunPayload(json: unknown) {
+  const parsed = storedRunSchema.safeParse(json);
+  return parsed.success
+    ? { run: parsed.data as StoredRun, issues: [] }
+    : { run: null, issues: describeIssues(parsed.error) };
+}
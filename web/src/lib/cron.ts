@@ -0,0 +1,119 @@
+/**
+ * A five-field cron subset (minute hour day-of-month month day-of-week) with
+ * `*`, lists, ranges and steps, evaluated in the server's local time.
+ */
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+const FIELD_RANGES = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+] as const;
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Far enough to find any valid date, including 29 February. */
+const SEARCH_LIMIT_YEARS = 8;
+
+function parseField(field: string, [min, max]: readonly [number, number]) {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : Number(match[3] ?? (match[4] ? max : match[2]));
+    const step = Number(match[4] ?? 1);
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronFields | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+  const fields = parts.map((part, index) => parseField(part, FIELD_RANGES[index]));
+  const [minutes, hours, days, months, weekdays] = fields;
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+  // Both 0 and 7 mean Sunday.
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === "*",
+    anyWeekday: parts[4] === "*",
+  };
+}
+
+export function isValidCron(expression: string) {
+  return parseCron(expression) !== null;
+}
+
+function matchesDay(fields: CronFields, date: Date) {
+  const day = fields.days.has(date.getDate());
+  const weekday = fields.weekdays.has(date.getDay());
+  // Classic cron: when both day fields are restricted, either may match.
+  if (!fields.anyDay && !fields.anyWeekday) return day || weekday;
+  return day && weekday;
+}
+
+/** The first matching minute strictly after `after`, or null if none exists. */
+export function nextCronTime(expression: string, after: Date) {
+  const fields = parseCron(expression);
+  if (!fields) return null;
+
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+  while (next < limit) {
+    if (!fields.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(fields, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!fields.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!fields.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+  return null;
+}
+
+/** Builds the "every day / on these weekdays at HH:MM" expressions the UI offers. */
+export function dailyCron(time: string, weekdays: number[] = []) {
+  const [hour, minute] = time.split(":").map(Number);
+  const days = weekdays.length > 0 ? [...weekdays].sort().join(",") : "*";
+  return `${minute} ${hour} * * ${days}`;
+}
+
+export function describeCron(expression: string) {
+  const parts = expression.trim().split(/\s+/);
+  const fields = parseCron(expression);
+  if (!fields || !/^\d+$/.test(parts[0]) || !/^\d+$/.test(parts[1])) return expression;
+  if (parts[2] !== "*" || parts[3] !== "*") return expression;
+
+  const time = `${parts[1].padStart(2, "0")}:${parts[0].padStart(2, "0")}`;
+  if (fields.anyWeekday) return `Every day at ${time}`;
+  const days = [...fields.weekdays].sort().map((day) => WEEKDAY_NAMES[day]);
+  return `${days.join(", ")} at ${time}`;
+}
@@ -0,0 +1,10 @@
+/** A pipeline failure that maps onto an HTTP status for the caller. */
+export class WorkflowError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "WorkflowError";
+  }
+}
@@ -0,0 +1,163 @@
+import type { Story, StoryBeat } from "@/lib/types";
+
+const FRAME_RATE = 30;
+
+type Cue = { start: number; end: number; text: string };
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+function clock(seconds: number, separator: "," | ".") {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+function timecode(seconds: number, offsetHours = 0) {
+  const frames = Math.round(seconds * FRAME_RATE);
+  const totalSeconds = Math.floor(frames / FRAME_RATE);
+  return [
+    pad(offsetHours + Math.floor(totalSeconds / 3600)),
+    pad(Math.floor((totalSeconds % 3600) / 60)),
+    pad(totalSeconds % 60),
+    pad(frames % FRAME_RATE),
+  ].join(":");
+}
+
+function minuteClock(seconds: number) {
+  return `${pad(Math.floor(seconds / 60))}:${pad(Math.floor(seconds % 60))}`;
+}
+
+function beatWindow(beat: StoryBeat) {
+  return `${minuteClock(beat.timestamp)} – ${minuteClock(beat.timestamp + beat.duration)}`;
+}
+
+/** Spreads each beat's captions evenly across that beat's window. */
+export function captionCues(story: Story): Cue[] {
+  return story.beats.flatMap((beat) => {
+    const captions = beat.captions.length > 0 ? beat.captions : [beat.voiceover];
+    const slice = beat.duration / captions.length;
+    return captions.map((text, index) => ({
+      start: beat.timestamp + slice * index,
+      end: beat.timestamp + slice * (index + 1),
+      text,
+    }));
+  });
+}
+
+export function toSrt(story: Story) {
+  return captionCues(story)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${clock(cue.start, ",")} --> ${clock(cue.end, ",")}\n${cue.text}\n`,
+    )
+    .join("\n");
+}
+
+export function toWebVtt(story: Story) {
+  const cues = captionCues(story).map(
+    (cue) => `${clock(cue.start, ".")} --> ${clock(cue.end, ".")}\n${cue.text}\n`,
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/** CMX3600 edit decision list: one event per beat, with a marker per headline. */
+export function toEdl(story: Story) {
+  const events = story.beats.map((beat, index) => {
+    const start = beat.timestamp;
+    const end = beat.timestamp + beat.duration;
+    return [
+      `${pad(index + 1, 3)}  AX       V     C        ${timecode(start)} ${timecode(end)} ${timecode(start, 1)} ${timecode(end, 1)}`,
+      `* FROM CLIP NAME: ${beat.headline}`,
+      `* LOC: ${timecode(start, 1)} BLUE    ${beat.headline}`,
+    ].join("\n");
+  });
+
+  return [
+    `TITLE: ${story.title.replace(/[\r\n]+/g, " ").slice(0, 70)}`,
+    "FCM: NON-DROP FRAME",
+    "",
+    events.join("\n\n"),
+    "",
+  ].join("\n");
+}
+
+export function toTeleprompter(story: Story) {
+  const beats = story.beats.map(
+    (beat) => `[${beatWindow(beat)}] ${beat.headline.toUpperCase()}\n${beat.voiceover}`,
+  );
+
+  return `${[
+    story.title.toUpperCase(),
+    `HOOK\n${story.hook}`,
+    ...beats,
+    `CALL TO ACTION\n${story.callToAction}`,
+  ].join("\n\n")}\n`;
+}
+
+export function toScriptMarkdown(story: Story) {
+  const beats = story.beats.map(
+    (beat) => `## ${beatWindow(beat)} · ${beat.headline}\n\n${beat.voiceover}`,
+  );
+
+  return `${[
+    `# ${story.title}`,
+    `**Hook:** ${story.hook}`,
+    ...beats,
+    `## Call to action\n\n${story.callToAction}`,
+    `**Keywords:** ${story.keywords.join(", ")}`,
+  ].join("\n\n")}\n`;
+}
+
+/** Every generation prompt in the story, in the order an editor needs them. */
+export function toPromptSheet(story: Story) {
+  const beats = story.beats.map((beat) =>
+    [
+      `## ${beatWindow(beat)} · ${beat.headline}`,
+      `**Motion:** ${beat.motionPrompt}`,
+      beat.brollPrompt ? `**B-roll:** ${beat.brollPrompt}` : null,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  );
+
+  return `${[
+    `# Prompts · ${story.title}`,
+    `**Soundtrack:** ${story.soundtrackPrompt}`,
+    `**Thumbnail:** ${story.thumbnailPrompt}`,
+    ...beats,
+  ].join("\n\n")}\n`;
+}
+
+export const storyExports = {
+  srt: { label: "SRT", extension: "srt", contentType: "application/x-subrip", render: toSrt },
+  vtt: { label: "WebVTT", extension: "vtt", contentType: "text/vtt", render: toWebVtt },
+  edl: { label: "EDL", extension: "edl", contentType: "text/plain", render: toEdl },
+  script: {
+    label: "Script",
+    extension: "txt",
+    contentType: "text/plain",
+    render: toTeleprompter,
+  },
+} satisfies Record<
+  string,
+  { label: string; extension: string; contentType: string; render(story: Story): string }
+>;
+
+export type StoryExportFormat = keyof typeof storyExports;
+
+export function isStoryExportFormat(value: string | null): value is StoryExportFormat {
+  return !!value && Object.hasOwn(storyExports, value);
+}
+
+export function storySlug(story: Pick<Story, "title" | "id">) {
+  const slug = story.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || story.id;
+}
@@ -0,0 +1,116 @@
+import type { RedditPost } from "@/lib/selection";
+import type { PostFilters, RankingStrategy, WorkflowSettings } from "@/lib/types";
+
+export const DEFAULT_FILTERS: PostFilters = {
+  excludeNsfw: true,
+  excludeSpoilers: true,
+  excludeStickied: true,
+  minScore: 0,
+  minComments: 0,
+  minLength: 0,
+  maxLength: null,
+  fitDuration: false,
+  allowKeywords: [],
+  denyKeywords: [],
+};
+
+type ScoringContext = Pick<WorkflowSettings, "duration">;
+type FilterContext = Pick<WorkflowSettings, "duration" | "comments">;
+
+export type PostScorer = (post: RedditPost, context: ScoringContext) => number;
+
+/**
+ * Rough selftext size a story of the given length can narrate: about 2.5
+ * spoken words per second, with room for the script to condense the post.
+ */
+export function selftextBudget(duration: number) {
+  return { min: duration * 4, max: duration * 60 };
+}
+
+export const postScorers = {
+  score: (post) => post.score,
+  comments: (post) => post.numComments,
+  engagement: (post) => post.score + post.numComments * 3,
+  "duration-fit": (post, { duration }) => {
+    const { min, max } = selftextBudget(duration);
+    return -Math.abs(post.selftext.length - (min + max) / 2);
+  },
+} satisfies Record<RankingStrategy, PostScorer>;
+
+export const RANKING_STRATEGIES = Object.keys(postScorers) as [
+  RankingStrategy,
+  ...RankingStrategy[],
+];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whole words or phrases only, so "cat" matches "my cat" but not "category". */
+function matchesKeyword(text: string, keywords: string[]) {
+  return keywords.find((keyword) =>
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}_])`, "iu").test(text),
+  );
+}
+
+/** Returns why a post fails the filters, or an empty list when it passes. */
+export function rejectionReasons(
+  post: RedditPost,
+  filters: PostFilters,
+  { duration, comments }: FilterContext,
+) {
+  const reasons: string[] = [];
+  const text = `${post.title}\n${post.selftext}`;
+  const length = post.selftext.trim().length;
+
+  if (filters.excludeNsfw && post.over18) reasons.push("marked NSFW");
+  if (filters.excludeSpoilers && post.spoiler) reasons.push("marked as a spoiler");
+  if (filters.excludeStickied && post.stickied) reasons.push("stickied by moderators");
+  if (post.score < filters.minScore) {
+    reasons.push(`score ${post.score} is below ${filters.minScore}`);
+  }
+  if (post.numComments < filters.minComments) {
+    reasons.push(`${post.numComments} comments is below ${filters.minComments}`);
+  }
+  // A title-only post is a question thread; its replies are the story.
+  if (length === 0 && comments.count === 0) {
+    reasons.push("has no body, and replies are turned off");
+  } else if (length === 0 && post.numComments === 0) {
+    reasons.push("has no body and no replies");
+  }
+  if (length < filters.minLength) {
+    reasons.push(`body is ${length} characters, under the ${filters.minLength} minimum`);
+  }
+  if (filters.maxLength !== null && length > filters.maxLength) {
+    reasons.push(`body is ${length} characters, over the ${filters.maxLength} maximum`);
+  }
+  if (filters.fitDuration) {
+    const budget = selftextBudget(duration);
+    if (length < budget.min || length > budget.max) {
+      reasons.push(
+        `body is ${length} characters, outside the ${budget.min}-${budget.max} a ${duration}s story can narrate`,
+      );
+    }
+  }
+
+  const allowed = filters.allowKeywords.filter(Boolean);
+  if (allowed.length > 0 && !matchesKeyword(text, allowed)) {
+    reasons.push("matches none of the allowed keywords");
+  }
+  const denied = matchesKeyword(text, filters.denyKeywords.filter(Boolean));
+  if (denied) reasons.push(`contains denied keyword "${denied}"`);
+
+  return reasons;
+}
+
+export function rankPosts(
+  posts: RedditPost[],
+  strategy: RankingStrategy,
+  context: ScoringContext,
+) {
+  const scorer: PostScorer = postScorers[strategy];
+  return posts
+    .map((post) => ({ post, score: scorer(post, context) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ post }) => post);
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { summarizeReview } from "@/lib/compliance";
+import { enforceRunContract, SCHEMA_VERSION } from "@/lib/contract";
+import { buildPlatformBundles } from "@/lib/platforms";
+import {
+  dataPath,
+  isSafeId,
+  listJsonFiles,
+  readJsonFile,
+  removeFile,
+  writeJsonFile,
+} from "@/lib/store";
+import type { RenderJob, RunSummary, Story, StoredRun, WorkflowPayload } from "@/lib/types";
+
+const runFile = (id: string) => dataPath("runs", `${id}.json`);
+
+export async function saveRun(payload: WorkflowPayload): Promise<StoredRun> {
+  const run = enforceRunContract({ id: randomUUID(), schemaVersion: SCHEMA_VERSION, ...payload });
+  await writeJsonFile(runFile(run.id), run);
+  return run;
+}
+
+export async function getRun(id: string) {
+  if (!isSafeId(id)) return null;
+  return readJsonFile<StoredRun>(runFile(id));
+}
+
+/**
+ * Replaces one story of a stored run, leaving the rest of the package
+ * untouched apart from its review summary and the story's own platform copy,
+ * which follow the stories.
+ */
+export async function updateStory(runId: string, story: Story) {
+  const run = await getRun(runId);
+  if (!run) return null;
+  const stories = run.stories.map((item) => (item.id === story.id ? story : item));
+  const rebuilt = buildPlatformBundles([story], run.settings, run.notes.hashtags);
+  const platforms = run.notes.platforms?.map(
+    (bundle) =>
+      rebuilt.find((item) => item.storyId === bundle.storyId && item.platform === bundle.platform) ??
+      bundle,
+  );
+  const updated = enforceRunContract({
+    ...run,
+    stories,
+    notes: { ...run.notes, platforms },
+    review: summarizeReview(stories),
+  });
+  await writeJsonFile(runFile(runId), updated);
+  return updated;
+}
+
+/** Render jobs are stored by job id next to their video, so they are found by run id. */
+async function deleteRenders(runId: string) {
+  const files = await listJsonFiles(dataPath("renders"));
+  await Promise.all(
+    files.map(async (file) => {
+      const job = await readJsonFile<RenderJob>(file);
+      if (job?.runId !== runId) return;
+      await removeFile(file.replace(/\.json$/, ".mp4"));
+      await removeFile(file);
+    }),
+  );
+}
+
+/** Removes the run with its rendered audio and videos. */
+export async function deleteRun(id: string) {
+  if (!isSafeId(id)) return false;
+  await fs.rm(dataPath("audio", id), { recursive: true, force: true });
+  await deleteRenders(id);
+  return removeFile(runFile(id));
+}
+
+export async function readAllRuns() {
+  const files = await listJsonFiles(dataPath("runs"));
+  const runs = await Promise.all(files.map((file) => readJsonFile<StoredRun>(file)));
+  return runs.filter((run): run is StoredRun => run !== null);
+}
+
+export async function listRuns(): Promise<RunSummary[]> {
+  const runs = await readAllRuns();
+
+  return runs
+    .map((run) => ({
+      id: run.id,
+      generatedAt: run.generatedAt,
+      settings: run.settings,
+      hooks: run.stories.map((story) => story.hook),
+    }))
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
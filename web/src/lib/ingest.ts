@@ -0,0 +1,279 @@
+import path from "node:path";
+import { flattenCommentListing, selectComments } from "@/lib/comments";
+import { WorkflowError } from "@/lib/errors";
+import { fetchTopRedditPosts, RedditResponseError } from "@/lib/reddit";
+import { sleep } from "@/lib/retry";
+import type { RedditPost } from "@/lib/selection";
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/store";
+import type { CommentOptions, RedditComment } from "@/lib/types";
+
+export type RedditErrorKind =
+  | "not-found"
+  | "private"
+  | "quarantined"
+  | "banned"
+  | "rate-limited"
+  | "fixture-missing";
+
+const statusByKind: Record<RedditErrorKind, number> = {
+  "not-found": 404,
+  private: 403,
+  quarantined: 403,
+  banned: 410,
+  "rate-limited": 429,
+  "fixture-missing": 404,
+};
+
+export class RedditError extends WorkflowError {
+  constructor(
+    readonly kind: RedditErrorKind,
+    readonly subreddit: string,
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message, statusByKind[kind]);
+    this.name = "RedditError";
+  }
+}
+
+/** Only rate limits are worth retrying; the other kinds will not change on their own. */
+export function isTransientRedditFailure(error: unknown) {
+  return !(error instanceof RedditError) || error.kind === "rate-limited";
+}
+
+type FixtureMode = "live" | "record" | "replay";
+
+type CachedPosts = { fetchedAt: string; posts: RedditPost[] };
+
+type CachedComments = { fetchedAt: string; depth: number; comments: RedditComment[] };
+
+/** A post with the replies pulled for it, as handed to the story providers. */
+export type PostWithComments = RedditPost & { comments?: RedditComment[] };
+
+const CACHE_TTL_MS = Number(process.env.REDDIT_CACHE_TTL_SECONDS ?? 600) * 1000;
+const MIN_INTERVAL_MS = Number(process.env.REDDIT_MIN_INTERVAL_MS ?? 1000);
+const USER_AGENT = process.env.REDDIT_USER_AGENT ?? "reddit-shorts-workflow/1.0";
+const FIXTURE_DIR =
+  process.env.REDDIT_FIXTURE_DIR ?? path.join(process.cwd(), "fixtures", "reddit");
+
+function fixtureMode(): FixtureMode {
+  const mode = process.env.REDDIT_FIXTURES;
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+const cacheFile = (subreddit: string, timeframe: string, limit: number) =>
+  dataPath("cache", "reddit", `${subreddit.toLowerCase()}-${timeframe}-${limit}.json`);
+
+/** Fixtures hold everything fetched for a subreddit and timeframe; replay slices to the limit. */
+const fixtureFile = (subreddit: string, timeframe: string) =>
+  path.join(FIXTURE_DIR, `${subreddit.toLowerCase()}-${timeframe}.json`);
+
+const commentsCacheFile = (postId: string, depth: number) =>
+  dataPath("cache", "reddit", "comments", `${postId}-d${depth}.json`);
+
+const commentsFixtureFile = (postId: string) => path.join(FIXTURE_DIR, "comments", `${postId}.json`);
+
+/** Earliest time the next Reddit request may start, shared by every caller in the process. */
+let nextSlot = 0;
+
+function throttle() {
+  const now = Date.now();
+  const start = Math.max(now, nextSlot);
+  nextSlot = start + MIN_INTERVAL_MS;
+  return sleep(start - now);
+}
+
+function holdRequests(ms: number) {
+  nextSlot = Math.max(nextSlot, Date.now() + ms);
+}
+
+function parseRetryAfter(headers: Headers) {
+  const value = headers.get("retry-after") ?? headers.get("x-ratelimit-reset");
+  if (!value) return 60_000;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 1) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? 60_000 : Math.max(date - Date.now(), 1000);
+}
+
+/** Pauses every Reddit request until the server's Retry-After has passed. */
+function rateLimited(subreddit: string, headers: Headers) {
+  const retryAfterMs = parseRetryAfter(headers);
+  holdRequests(retryAfterMs);
+  return new RedditError(
+    "rate-limited",
+    subreddit,
+    `Reddit is rate limiting requests; retry in ${Math.ceil(retryAfterMs / 1000)}s.`,
+    retryAfterMs,
+  );
+}
+
+async function requestReddit(pathname: string, init: RequestInit = {}) {
+  await throttle();
+  return fetch(`https://www.reddit.com${pathname}`, {
+    ...init,
+    headers: { "User-Agent": USER_AGENT },
+  });
+}
+
+type SubredditAnswer = { reason?: string; data?: { quarantine?: boolean } } | null;
+
+/**
+ * Turns a Reddit answer about a subreddit into a typed error, or null when
+ * nothing in it says the subreddit cannot be read.
+ */
+function classifyAnswer(
+  subreddit: string,
+  status: number,
+  headers: Headers,
+  body: SubredditAnswer,
+): RedditError | null {
+  if (status === 429) return rateLimited(subreddit, headers);
+  if (body?.reason === "quarantined" || body?.data?.quarantine) {
+    return new RedditError(
+      "quarantined",
+      subreddit,
+      `r/${subreddit} is quarantined and cannot be read anonymously.`,
+    );
+  }
+  if (body?.reason === "banned") {
+    return new RedditError("banned", subreddit, `r/${subreddit} has been banned by Reddit.`);
+  }
+  if (status === 403) {
+    return new RedditError("private", subreddit, `r/${subreddit} is private.`);
+  }
+  // Unknown subreddits answer 404 or redirect to the search page.
+  if (status === 404 || (status >= 300 && status < 400)) {
+    return new RedditError("not-found", subreddit, `r/${subreddit} does not exist.`);
+  }
+  return null;
+}
+
+/**
+ * Asks Reddit why a subreddit returned nothing (or failed) and turns the
+ * answer into a typed error. Returns null when the subreddit looks healthy.
+ */
+async function diagnoseSubreddit(subreddit: string): Promise<RedditError | null> {
+  const res = await requestReddit(`/r/${subreddit}/about.json`, { redirect: "manual" });
+  const body = (await res.json().catch(() => null)) as SubredditAnswer;
+  return classifyAnswer(subreddit, res.status, res.headers, body);
+}
+
+async function fetchLive(subreddit: string, timeframe: string, limit: number) {
+  await throttle();
+  try {
+    const posts = await fetchTopRedditPosts(subreddit, timeframe, limit);
+    if (posts.length === 0) {
+      const problem = await diagnoseSubreddit(subreddit).catch(() => null);
+      if (problem) throw problem;
+    }
+    return posts;
+  } catch (error) {
+    if (error instanceof RedditError) throw error;
+    // The listing's own status and reason come first; about.json only explains the rest.
+    const problem =
+      (error instanceof RedditResponseError
+        ? classifyAnswer(subreddit, error.status, error.headers, { reason: error.reason })
+        : null) ?? (await diagnoseSubreddit(subreddit).catch(() => null));
+    throw problem ?? error;
+  }
+}
+
+async function replayFixture(subreddit: string, timeframe: string, limit: number) {
+  const fixture = await readJsonFile<CachedPosts>(fixtureFile(subreddit, timeframe));
+  if (!fixture) {
+    throw new RedditError(
+      "fixture-missing",
+      subreddit,
+      `No fixture recorded for r/${subreddit} (${timeframe}). Run with REDDIT_FIXTURES=record first.`,
+    );
+  }
+  return fixture.posts.slice(0, limit);
+}
+
+/**
+ * `fetchTopRedditPosts` behind a throttle, an on-disk TTL cache and typed
+ * errors. REDDIT_FIXTURES=record saves every live response as a fixture;
+ * REDDIT_FIXTURES=replay serves fixtures only and never touches the network.
+ */
+export async function fetchSubredditPosts(
+  subreddit: string,
+  timeframe: string,
+  limit: number,
+): Promise<RedditPost[]> {
+  const mode = fixtureMode();
+  if (mode === "replay") return replayFixture(subreddit, timeframe, limit);
+
+  const file = cacheFile(subreddit, timeframe, limit);
+  if (mode === "live") {
+    const cached = await readJsonFile<CachedPosts>(file);
+    if (cached && Date.now() - Date.parse(cached.fetchedAt) < CACHE_TTL_MS) {
+      return cached.posts;
+    }
+  }
+
+  const posts = await fetchLive(subreddit, timeframe, limit);
+  const entry: CachedPosts = { fetchedAt: new Date().toISOString(), posts };
+  await writeJsonFile(file, entry);
+  if (mode === "record") {
+    const fixture = fixtureFile(subreddit, timeframe);
+    const existing = await readJsonFile<CachedPosts>(fixture);
+    if (!existing || existing.posts.length <= posts.length) {
+      await writeJsonFile(fixture, entry);
+    }
+  }
+  return posts;
+}
+
+async function fetchLiveComments(post: RedditPost, depth: number) {
+  const params = new URLSearchParams({
+    sort: "top",
+    depth: String(depth),
+    limit: "100",
+    raw_json: "1",
+  });
+  const res = await requestReddit(`${post.permalink.replace(/\/$/, "")}.json?${params}`);
+  if (res.status === 429) throw rateLimited(post.subreddit, res.headers);
+  if (!res.ok) {
+    throw new Error(`Reddit returned ${res.status} for comments on ${post.id}.`);
+  }
+  return flattenCommentListing(await res.json(), depth);
+}
+
+/**
+ * Top replies for a post, filtered by the run's comment options. Shares the
+ * throttle, cache and fixture modes of `fetchSubredditPosts`; a post without a
+ * recorded fixture simply has no comments in replay mode.
+ */
+export async function fetchPostComments(
+  post: RedditPost,
+  options: CommentOptions,
+): Promise<RedditComment[]> {
+  if (options.count === 0) return [];
+  const mode = fixtureMode();
+
+  if (mode === "replay") {
+    const fixture = await readJsonFile<CachedComments>(commentsFixtureFile(post.id));
+    return selectComments(fixture?.comments ?? [], options);
+  }
+
+  const file = commentsCacheFile(post.id, options.depth);
+  if (mode === "live") {
+    const cached = await readJsonFile<CachedComments>(file);
+    if (cached && Date.now() - Date.parse(cached.fetchedAt) < CACHE_TTL_MS) {
+      return selectComments(cached.comments, options);
+    }
+  }
+
+  const comments = await fetchLiveComments(post, options.depth);
+  const entry: CachedComments = { fetchedAt: new Date().toISOString(), depth: options.depth, comments };
+  await writeJsonFile(file, entry);
+  if (mode === "record") {
+    const fixture = commentsFixtureFile(post.id);
+    const existing = await readJsonFile<CachedComments>(fixture);
+    if (!existing || existing.depth <= options.depth) {
+      await writeJsonFile(fixture, entry);
+    }
+  }
+  return selectComments(comments, options);
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from "node:crypto";
+import { WorkflowError } from "@/lib/errors";
+import { runWorkflow } from "@/lib/pipeline";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import { dataPath, isSafeId, readJsonFile, writeJsonFile } from "@/lib/store";
+import type { BatchPlan, WorkflowJob } from "@/lib/types";
+
+const MAX_RUNNING = Number(process.env.WORKFLOW_JOB_CONCURRENCY) || 1;
+
+type ActiveJob = {
+  job: WorkflowJob;
+  settings: ParsedWorkflowSettings;
+  controller: AbortController;
+  finished: Promise<WorkflowJob>;
+  finish(): void;
+  persist(): Promise<void>;
+};
+
+export type JobQueue<T> = {
+  push(item: T): void;
+  /** Takes a job out of the queue before it starts; false if it already started. */
+  remove(item: T): boolean;
+};
+
+/**
+ * Runs queued jobs in order, at most `limit` at a time. Workflow runs and
+ * video renders each get their own queue so a long render never holds up a
+ * run, and neither can start more work than the host can take.
+ */
+export function createJobQueue<T>(limit: number, run: (item: T) => Promise<void>): JobQueue<T> {
+  const queue: T[] = [];
+  let running = 0;
+
+  function drain() {
+    while (running < limit && queue.length > 0) {
+      const next = queue.shift() as T;
+      running += 1;
+      void run(next).finally(() => {
+        running -= 1;
+        drain();
+      });
+    }
+  }
+
+  return {
+    push(item) {
+      queue.push(item);
+      drain();
+    },
+    remove(item) {
+      const index = queue.indexOf(item);
+      if (index === -1) return false;
+      queue.splice(index, 1);
+      return true;
+    },
+  };
+}
+
+/** Jobs queued or running in this process; anything else still open was interrupted. */
+const activeJobs = new Map<string, ActiveJob>();
+
+const jobFile = (id: string) => dataPath("jobs", `${id}.json`);
+
+function isOpen(job: WorkflowJob) {
+  return job.status === "queued" || job.status === "running";
+}
+
+function settle(job: WorkflowJob): WorkflowJob {
+  if (isOpen(job) && !activeJobs.has(job.id)) {
+    return { ...job, status: "failed", error: "Run was interrupted by a server restart." };
+  }
+  return job;
+}
+
+export async function getWorkflowJob(id: string) {
+  const active = activeJobs.get(id);
+  if (active) return active.job;
+  if (!isSafeId(id)) return null;
+  const job = await readJsonFile<WorkflowJob>(jobFile(id));
+  return job && settle(job);
+}
+
+function track(job: WorkflowJob, settings: ParsedWorkflowSettings): ActiveJob {
+  // Writes are chained so a late event write never overwrites the final status.
+  let writes = Promise.resolve();
+  let resolveFinished: (job: WorkflowJob) => void = () => undefined;
+  const finished = new Promise<WorkflowJob>((resolve) => {
+    resolveFinished = resolve;
+  });
+  return {
+    job,
+    settings,
+    controller: new AbortController(),
+    finished,
+    finish() {
+      activeJobs.delete(job.id);
+      resolveFinished(job);
+    },
+    persist() {
+      const snapshot = { ...job, events: [...job.events] };
+      writes = writes.then(() => writeJsonFile(jobFile(job.id), snapshot));
+      return writes;
+    },
+  };
+}
+
+async function processJob(active: ActiveJob) {
+  const { job, settings, controller } = active;
+  const update = (patch: Partial<WorkflowJob>) => {
+    Object.assign(job, patch);
+    return active.persist();
+  };
+
+  try {
+    await update({ status: "running", startedAt: new Date().toISOString() });
+    const run = await runWorkflow(settings, {
+      signal: controller.signal,
+      batch: job.batch,
+      emit(event) {
+        job.events.push(event);
+        void active.persist();
+      },
+    });
+    await update({ status: "done", runId: run.id, finishedAt: new Date().toISOString() });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      await update({
+        status: "cancelled",
+        error: "Cancelled by request.",
+        finishedAt: new Date().toISOString(),
+      });
+      return;
+    }
+    if (!(error instanceof WorkflowError)) {
+      console.error("Workflow job failed", error);
+    }
+    const message = error instanceof Error ? error.message : "Workflow generation failed.";
+    job.events.push({
+      type: "error",
+      status: error instanceof WorkflowError ? error.status : 500,
+      message,
+    });
+    await update({ status: "failed", error: message, finishedAt: new Date().toISOString() });
+  } finally {
+    active.finish();
+  }
+}
+
+const workflowQueue = createJobQueue(MAX_RUNNING, processJob);
+
+/**
+ * Queues a workflow run and returns immediately; poll the job for events.
+ * With a batch plan the run fills that content calendar.
+ */
+export async function enqueueWorkflowJob(settings: ParsedWorkflowSettings, batch?: BatchPlan) {
+  const job: WorkflowJob = {
+    id: randomUUID(),
+    status: "queued",
+    settings,
+    events: [],
+    createdAt: new Date().toISOString(),
+    batch,
+  };
+  const active = track(job, settings);
+  activeJobs.set(job.id, active);
+  await active.persist();
+  workflowQueue.push(active);
+  return job;
+}
+
+/**
+ * Cancels a queued job outright. A running job is aborted at its next stage
+ * boundary and records itself as cancelled, so callers should keep polling.
+ */
+export async function cancelWorkflowJob(id: string) {
+  const active = activeJobs.get(id);
+  if (!active) return getWorkflowJob(id);
+
+  active.controller.abort();
+  if (workflowQueue.remove(active)) {
+    Object.assign(active.job, {
+      status: "cancelled",
+      error: "Cancelled by request.",
+      finishedAt: new Date().toISOString(),
+    });
+    await active.persist();
+    active.finish();
+  }
+  return active.job;
+}
+
+/** Resolves once the job has finished, whatever the outcome. */
+export async function waitForWorkflowJob(id: string) {
+  const active = activeJobs.get(id);
+  return active ? active.finished : getWorkflowJob(id);
+}
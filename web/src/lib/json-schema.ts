@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+type JsonSchema = Record<string, unknown>;
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: "string" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "min") json.minLength = check.value;
+    else if (check.kind === "max") json.maxLength = check.value;
+    else if (check.kind === "url") json.format = "uri";
+    else if (check.kind === "datetime") json.format = "date-time";
+    else if (check.kind === "regex") json.pattern = check.regex.source;
+  }
+  return json;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: "number" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "int") json.type = "integer";
+    else if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+  }
+  return json;
+}
+
+function isOptional(schema: z.ZodTypeAny) {
+  return schema instanceof z.ZodOptional;
+}
+
+/**
+ * Converts the zod schemas used in this app to JSON Schema (draft 2020-12),
+ * describing the parsed output: defaulted fields are listed as required.
+ * Only the zod types the contract uses are handled; refinements are dropped.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const unknownKeys = schema._def.unknownKeys;
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)]),
+      ),
+      required: Object.keys(shape).filter((key) => !isOptional(shape[key])),
+      ...(unknownKeys === "strict" ? { additionalProperties: false } : {}),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: "array", items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    return json;
+  }
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: "null" }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+  return {};
+}
@@ -0,0 +1,86 @@
+import { dataPath, readJsonFile, writeJsonFile } from "@/lib/store";
+
+/** `pending` marks posts held by a run that is still being scripted. */
+type LedgerEntry = { runId: string; usedAt: string; pending?: boolean };
+type Ledger = Record<string, LedgerEntry>;
+
+/** A reservation older than this belongs to a run that died with the server. */
+const PENDING_TTL_MS = 6 * 60 * 60 * 1000;
+
+const ledgerFile = dataPath("used-posts.json");
+
+async function readLedger() {
+  return (await readJsonFile<Ledger>(ledgerFile)) ?? {};
+}
+
+/** One write chain for the whole ledger, so concurrent runs cannot pick the same posts. */
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function mutateLedger<T>(change: (ledger: Ledger) => T | Promise<T>) {
+  const next = pendingWrite.then(async () => {
+    const ledger = await readLedger();
+    const result = await change(ledger);
+    await writeJsonFile(ledgerFile, ledger);
+    return result;
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+function isLive(entry: LedgerEntry, now: number) {
+  return !entry.pending || now - Date.parse(entry.usedAt) < PENDING_TTL_MS;
+}
+
+function dropEntries(ledger: Ledger, runId: string) {
+  for (const [postId, entry] of Object.entries(ledger)) {
+    if (entry.runId === runId) delete ledger[postId];
+  }
+}
+
+/**
+ * Picks posts and holds them for a run in one step under the ledger lock:
+ * `select` sees every post used or held by other runs, and the posts it picks
+ * are held under `reservationId` before any other run can look. Calling it
+ * again with the same id replaces the earlier hold.
+ */
+export function reservePosts<T extends { posts: { id: string }[] }>(
+  reservationId: string,
+  select: (usedIds: Set<string>) => T,
+) {
+  return mutateLedger((ledger) => {
+    dropEntries(ledger, reservationId);
+    const now = Date.now();
+    const usedIds = new Set(
+      Object.entries(ledger)
+        .filter(([, entry]) => isLive(entry, now))
+        .map(([postId]) => postId),
+    );
+
+    const selection = select(usedIds);
+    const usedAt = new Date(now).toISOString();
+    for (const { id } of selection.posts) {
+      // Repeats stay credited to the run that used them first until this one is saved.
+      if (!usedIds.has(id)) ledger[id] = { runId: reservationId, usedAt, pending: true };
+    }
+    return selection;
+  });
+}
+
+/**
+ * Turns a hold into a record of the saved run: the posts it scripted are
+ * credited to it, and held posts it did not script are freed again.
+ */
+export function recordUsedPosts(reservationId: string, runId: string, postIds: string[]) {
+  return mutateLedger((ledger) => {
+    dropEntries(ledger, reservationId);
+    const usedAt = new Date().toISOString();
+    for (const postId of postIds) {
+      ledger[postId] = { runId, usedAt };
+    }
+  });
+}
+
+/** Frees the posts of a deleted run, or of a run that failed, so they can be scripted again. */
+export function releaseRunPosts(runId: string) {
+  return mutateLedger((ledger) => dropEntries(ledger, runId));
+}
@@ -0,0 +1,328 @@
+import { randomUUID } from "node:crypto";
+import { assembleWorkflowResponse } from "@/lib/workflow";
+import { scheduleStories, widerTimeframes } from "@/lib/calendar";
+import { reviewStory, summarizeReview, withAttribution } from "@/lib/compliance";
+import { WorkflowError } from "@/lib/errors";
+import { saveRun } from "@/lib/history";
+import {
+  fetchPostComments,
+  isTransientRedditFailure,
+  type PostWithComments,
+} from "@/lib/ingest";
+import { recordUsedPosts, releaseRunPosts, reservePosts } from "@/lib/ledger";
+import { buildPlatformBundles } from "@/lib/platforms";
+import { draftStoryOpening, generateStories } from "@/lib/providers";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import { withRetry, type RetryOptions } from "@/lib/retry";
+import { selectPosts, type RedditPost, type Selection } from "@/lib/selection";
+import { fetchCandidateGroups, type CandidateGroup } from "@/lib/sources";
+import { isTransientTranslationFailure, translateNotes, translateStory } from "@/lib/translate";
+import { attachVariants } from "@/lib/variants";
+import type {
+  BatchPlan,
+  Locale,
+  LocalizedNotes,
+  Story,
+  StoryOpening,
+  StoryTranslation,
+  StoredRun,
+  WorkflowStage,
+  WorkflowStreamEvent,
+} from "@/lib/types";
+
+type PipelineOptions = {
+  emit(event: WorkflowStreamEvent): void;
+  signal?: AbortSignal;
+  /** Fill a content calendar: stories get publish slots from this plan. */
+  batch?: BatchPlan;
+};
+
+function describeEmptySelection({ candidates, skippedDuplicates }: Selection) {
+  if (skippedDuplicates === candidates) {
+    return `All ${candidates} fetched posts were already used in earlier packages. Allow repeats to remake them.`;
+  }
+  if (skippedDuplicates === 0) {
+    return `None of the ${candidates} fetched posts passed the content filters.`;
+  }
+  const filtered = candidates - skippedDuplicates;
+  return `None of the ${candidates} fetched posts could be used: ${skippedDuplicates} were already used in earlier packages and ${filtered} failed the content filters.`;
+}
+
+/**
+ * Selects from the requested timeframe, and for batches keeps widening it
+ * (week, month, year, all) until there are enough unused posts to fill every
+ * slot. Candidates accumulate per source, so selection still sees each post
+ * only once. Every selection holds its posts in the ledger under
+ * `reservationId`, so a concurrent run cannot pick them too.
+ */
+async function collectPosts(
+  settings: ParsedWorkflowSettings,
+  batch: BatchPlan | undefined,
+  reservationId: string,
+  fetchGroups: (timeframe: ParsedWorkflowSettings["timeframe"]) => Promise<CandidateGroup[]>,
+) {
+  const timeframes = batch ? widerTimeframes(settings.timeframe) : [settings.timeframe];
+  let groups: CandidateGroup[] = [];
+  let selection: Selection | null = null;
+
+  for (const timeframe of timeframes) {
+    const fetched = await fetchGroups(timeframe);
+    groups =
+      groups.length === 0
+        ? fetched
+        : groups.map((group, index) => ({
+            ...group,
+            posts: [...group.posts, ...fetched[index].posts],
+          }));
+    selection = await reservePosts(reservationId, (usedIds) =>
+      selectPosts(groups, settings, usedIds),
+    );
+    if (selection.posts.length >= settings.storyCount) break;
+  }
+
+  return selection as Selection;
+}
+
+type Localizing = {
+  retry: RetryOptions;
+  onFailed(locale: Locale, error: unknown): void;
+};
+
+/**
+ * Translates the finished package into each target locale. A locale is all
+ * or nothing: if any story or the upload copy cannot be translated, the
+ * locale is reported and left out, and the English package still ships.
+ */
+async function localizePackage(
+  stories: Story[],
+  notes: { uploadCopy: string; hashtags: string[] },
+  settings: ParsedWorkflowSettings,
+  { retry, onFailed }: Localizing,
+) {
+  const translations = new Map<string, StoryTranslation[]>();
+  const locales: LocalizedNotes[] = [];
+
+  for (const locale of settings.locales) {
+    try {
+      const localizedNotes = await withRetry(() => translateNotes(notes, locale), retry);
+      const translated: StoryTranslation[] = [];
+      for (const story of stories) {
+        translated.push(await withRetry(() => translateStory(story, locale, settings), retry));
+      }
+      locales.push(localizedNotes);
+      stories.forEach((story, index) => {
+        translations.set(story.id, [...(translations.get(story.id) ?? []), translated[index]]);
+      });
+    } catch (error) {
+      if (retry.signal?.aborted) throw error;
+      onFailed(locale, error);
+    }
+  }
+
+  return {
+    stories: stories.map((story) =>
+      translations.has(story.id) ? { ...story, translations: translations.get(story.id) } : story,
+    ),
+    locales,
+  };
+}
+
+async function finalizeRun(
+  stories: Story[],
+  settings: ParsedWorkflowSettings,
+  posts: RedditPost[],
+  selection: Selection,
+  {
+    batch,
+    localizing,
+    reservationId,
+  }: { batch?: BatchPlan; localizing: Localizing; reservationId: string },
+) {
+  const workflow = assembleWorkflowResponse(stories, settings, posts);
+  const uploadCopy = withAttribution(workflow.notes.uploadCopy, stories);
+  const scheduled = batch ? scheduleStories(batch, workflow.stories) : workflow.stories;
+  const localized = await localizePackage(
+    scheduled,
+    { uploadCopy, hashtags: workflow.notes.hashtags },
+    settings,
+    localizing,
+  );
+
+  const run = await saveRun({
+    ...workflow,
+    stories: localized.stories,
+    ...(batch ? { calendar: batch } : {}),
+    notes: {
+      ...workflow.notes,
+      uploadCopy,
+      platforms: buildPlatformBundles(stories, settings, workflow.notes.hashtags),
+      ...(settings.locales.length > 0 ? { locales: localized.locales } : {}),
+    },
+    selection: {
+      candidates: selection.candidates,
+      skippedDuplicates: selection.skippedDuplicates,
+      rejected: selection.rejected,
+    },
+    review: summarizeReview(stories),
+  });
+  await recordUsedPosts(reservationId, run.id, posts.map((post) => post.id));
+  return run;
+}
+
+/**
+ * Fetches, scripts and saves one package, emitting stage events as it goes.
+ * Reddit and model calls are retried with backoff; stories are scripted one
+ * post at a time so a single failure does not discard the others. Replies are
+ * optional context, so a post whose comments cannot be loaded is scripted
+ * from its body alone; a title-only question thread is scripted from its
+ * replies and fails without them. Every script then passes the compliance review before
+ * it is emitted, so nothing unredacted reaches the client or the saved run.
+ * Each story then gets alternative openings (hook, title and thumbnail prompt
+ * only), which are scored and ranked; a failed draft only means one variant
+ * fewer.
+ * A batch run scripts one story per calendar slot and schedules them in
+ * ranking order. Translations into the target locales come last, once the
+ * English package is final.
+ */
+async function buildPackage(
+  settings: ParsedWorkflowSettings,
+  { emit, signal, batch }: PipelineOptions,
+  reservationId: string,
+): Promise<StoredRun> {
+  const retrying = (stage: WorkflowStage) => ({
+    signal,
+    onRetry(attempt: number, delayMs: number, error: unknown) {
+      emit({
+        type: "stage-retry",
+        stage,
+        attempt,
+        delayMs,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    },
+  });
+
+  const fromReddit = { ...retrying("reddit"), shouldRetry: isTransientRedditFailure };
+
+  const selection = await collectPosts(settings, batch, reservationId, (timeframe) =>
+    withRetry(() => fetchCandidateGroups({ ...settings, timeframe }), fromReddit),
+  );
+  if (selection.candidates === 0) {
+    throw new WorkflowError("No posts found for the requested subreddit/timeframe.", 404);
+  }
+  if (selection.posts.length === 0) {
+    throw new WorkflowError(describeEmptySelection(selection), 404);
+  }
+
+  emit({
+    type: "posts-fetched",
+    fetched: selection.candidates,
+    selected: selection.posts.length,
+    skippedDuplicates: selection.skippedDuplicates,
+  });
+
+  const loadComments = (post: RedditPost) =>
+    withRetry(() => fetchPostComments(post, settings.comments), fromReddit).catch((error) => {
+      if (signal?.aborted) throw error;
+      console.error(`Could not load comments for ${post.id}`, error);
+      return [];
+    });
+
+  const draftVariants = async (story: Story) => {
+    const drafts: StoryOpening[] = [];
+    for (let variant = 1; variant <= settings.hookVariants; variant += 1) {
+      signal?.throwIfAborted();
+      const draft = await withRetry(
+        () => draftStoryOpening(story, settings, variant),
+        retrying("model"),
+      ).catch((error) => {
+        if (signal?.aborted) throw error;
+        console.error(`Could not draft variant ${variant} of ${story.id}`, error);
+        return null;
+      });
+      if (draft) drafts.push(draft);
+    }
+    return drafts;
+  };
+
+  const stories: Story[] = [];
+  const scriptedPosts: RedditPost[] = [];
+
+  for (const [index, post] of selection.posts.entries()) {
+    signal?.throwIfAborted();
+    const source: PostWithComments = { ...post, comments: await loadComments(post) };
+    try {
+      if (!post.selftext.trim() && source.comments?.length === 0) {
+        throw new Error("This post has no body and none of its replies could be used.");
+      }
+      const [draft] = await withRetry(
+        () => generateStories([source], settings),
+        retrying("model"),
+      );
+      if (!draft) {
+        throw new Error("No story was generated for this post.");
+      }
+      const knownNames = [
+        post.author,
+        ...(source.comments ?? []).map((comment) => comment.author),
+      ];
+      const reviewed = reviewStory(draft, settings.compliance, knownNames);
+      const story = attachVariants(reviewed, await draftVariants(reviewed), settings, knownNames);
+      stories.push(story);
+      scriptedPosts.push(post);
+      emit({ type: "story-scripted", index, story });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Story generation failed", error);
+      emit({
+        type: "story-failed",
+        index,
+        title: post.title,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  if (stories.length === 0) {
+    throw new WorkflowError("Workflow generation failed.", 500);
+  }
+
+  signal?.throwIfAborted();
+  const run = await finalizeRun(stories, settings, scriptedPosts, selection, {
+    batch,
+    reservationId,
+    localizing: {
+      retry: { ...retrying("translate"), shouldRetry: isTransientTranslationFailure },
+      onFailed(locale, error) {
+        console.error(`Translation into ${locale} failed`, error);
+        emit({
+          type: "translation-failed",
+          locale,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      },
+    },
+  });
+  emit({ type: "package-assembled", payload: run });
+  return run;
+}
+
+/**
+ * Runs the pipeline for one package. Posts are held in the ledger from the
+ * moment they are selected; if the run fails, the hold is released so the
+ * posts can be picked again.
+ */
+export async function runWorkflow(
+  settings: ParsedWorkflowSettings,
+  options: PipelineOptions,
+): Promise<StoredRun> {
+  const reservationId = `pending-${randomUUID()}`;
+  try {
+    return await buildPackage(settings, options, reservationId);
+  } catch (error) {
+    await releaseRunPosts(reservationId).catch((releaseError) =>
+      console.error(`Could not release posts held by ${reservationId}`, releaseError),
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,179 @@
+import { normalizeWhitespace } from "@/lib/text";
+import type { Platform, PlatformCopy, Story, WorkflowSettings } from "@/lib/types";
+
+type PlatformRules = {
+  label: string;
+  titleMax: number;
+  descriptionMax: number;
+  /** Hashtags beyond this are dropped; the platforms penalise or ignore long lists. */
+  hashtagMax: number;
+  commentMax: number;
+  requiredHashtags: string[];
+};
+
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  youtube: {
+    label: "YouTube Shorts",
+    titleMax: 100,
+    descriptionMax: 5000,
+    hashtagMax: 15,
+    commentMax: 10000,
+    requiredHashtags: ["#Shorts"],
+  },
+  tiktok: {
+    label: "TikTok",
+    titleMax: 90,
+    descriptionMax: 4000,
+    hashtagMax: 5,
+    commentMax: 150,
+    requiredHashtags: [],
+  },
+  instagram: {
+    label: "Instagram Reels",
+    titleMax: 125,
+    descriptionMax: 2200,
+    hashtagMax: 30,
+    commentMax: 2200,
+    requiredHashtags: ["#Reels"],
+  },
+};
+
+export const PLATFORMS = Object.keys(PLATFORM_RULES) as [Platform, ...Platform[]];
+
+/** Cuts at a word boundary and ends on an ellipsis, keeping line breaks. */
+function fitText(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const wordEnd = cut.lastIndexOf(" ");
+  return `${(wordEnd > max / 2 ? cut.slice(0, wordEnd) : cut).replace(/[,;:.\s]+$/, "")}…`;
+}
+
+export function toHashtag(value: string) {
+  const word = value.replace(/^#/, "").replace(/[^\p{L}\p{N}_]/gu, "");
+  return word ? `#${word}` : null;
+}
+
+function mergeHashtags(rules: PlatformRules, sources: string[][]) {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const candidate of [rules.requiredHashtags, ...sources].flat()) {
+    const tag = toHashtag(candidate);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/** Lists every limit a bundle breaks; empty when it can be pasted as is. */
+export function validatePlatformCopy(copy: PlatformCopy) {
+  const rules = PLATFORM_RULES[copy.platform];
+  const checks = [
+    { field: "title", length: copy.title.length, max: rules.titleMax },
+    { field: "description", length: copy.description.length, max: rules.descriptionMax },
+    { field: "hashtags", length: copy.hashtags.length, max: rules.hashtagMax },
+    { field: "pinned comment", length: copy.pinnedComment.length, max: rules.commentMax },
+  ];
+  return checks
+    .filter((check) => check.length > check.max)
+    .map((check) => `${rules.label} ${check.field} is ${check.length}, over the limit of ${check.max}.`);
+}
+
+/** The subreddit a story came from, read from its source link; runs can mix several. */
+export function sourceSubreddit(story: Story) {
+  return story.sourceUrl.match(/\/r\/(\w+)/)?.[1] ?? null;
+}
+
+function describe(platform: Platform, story: Story, subreddit: string) {
+  switch (platform) {
+    case "youtube":
+      return [
+        story.hook,
+        story.callToAction,
+        `Source: r/${subreddit} — ${story.sourceUrl}`,
+      ].join("\n\n");
+    case "tiktok":
+      return `${story.hook} ${story.callToAction}`;
+    case "instagram":
+      return [story.hook, story.callToAction, `Story via r/${subreddit}.`].join("\n\n");
+  }
+}
+
+function pinnedComment(platform: Platform, story: Story, subreddit: string) {
+  switch (platform) {
+    case "youtube":
+      return `Full thread on r/${subreddit}: ${story.sourceUrl} — what would you have done?`;
+    case "tiktok":
+      return "Would you have done the same? Comment \"part 2\" for the update.";
+    case "instagram":
+      return `Original post from r/${subreddit}. Tag a friend who needs to hear this one.`;
+  }
+}
+
+/**
+ * Builds one upload bundle for a story on a platform, trimming each field to
+ * that platform's limits and recording what had to change.
+ */
+export function buildPlatformCopy(
+  platform: Platform,
+  story: Story,
+  settings: Pick<WorkflowSettings, "subreddit">,
+  packageHashtags: string[],
+): PlatformCopy {
+  const rules = PLATFORM_RULES[platform];
+  const adjustments: string[] = [];
+  const allHashtags = mergeHashtags(rules, [packageHashtags, story.keywords]);
+  const hashtags = allHashtags.slice(0, rules.hashtagMax);
+  if (allHashtags.length > hashtags.length) {
+    adjustments.push(`Kept the first ${hashtags.length} of ${allHashtags.length} hashtags.`);
+  }
+
+  const storyTitle = normalizeWhitespace(story.title);
+  const title = fitText(storyTitle, rules.titleMax);
+  if (title !== storyTitle) {
+    adjustments.push(`Title shortened to ${rules.titleMax} characters.`);
+  }
+
+  // Hashtags live in the description on every platform and count toward its limit.
+  const tagLine = hashtags.join(" ");
+  const subreddit = sourceSubreddit(story) ?? settings.subreddit;
+  const body = describe(platform, story, subreddit);
+  const room = rules.descriptionMax - (tagLine ? tagLine.length + 2 : 0);
+  const fittedBody = fitText(body, room);
+  if (fittedBody !== body) {
+    adjustments.push(`Description shortened to fit ${rules.descriptionMax} characters.`);
+  }
+  const description = tagLine ? `${fittedBody}\n\n${tagLine}` : fittedBody;
+
+  const comment = pinnedComment(platform, story, subreddit);
+  const copy: PlatformCopy = {
+    storyId: story.id,
+    platform,
+    title,
+    description,
+    hashtags,
+    pinnedComment: fitText(comment, rules.commentMax),
+    adjustments,
+    violations: [],
+  };
+  return { ...copy, violations: validatePlatformCopy(copy) };
+}
+
+export function buildPlatformBundles(
+  stories: Story[],
+  settings: Pick<WorkflowSettings, "subreddit" | "platforms">,
+  packageHashtags: string[],
+) {
+  return settings.platforms.flatMap((platform) =>
+    stories.map((story) => buildPlatformCopy(platform, story, settings, packageHashtags)),
+  );
+}
+
+/** The bundle as one paste-ready block for the clipboard. */
+export function formatPlatformCopy(copy: PlatformCopy) {
+  return [
+    `Title: ${copy.title}`,
+    `Description:\n${copy.description}`,
+    `Pinned comment: ${copy.pinnedComment}`,
+  ].join("\n\n");
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import {
+  dataPath,
+  isSafeId,
+  listJsonFiles,
+  readJsonFile,
+  removeFile,
+  writeJsonFile,
+} from "@/lib/store";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import type { Preset } from "@/lib/types";
+
+export const presetNameSchema = z.string().trim().min(1).max(60);
+
+const presetFile = (id: string) => dataPath("presets", `${id}.json`);
+
+export async function listPresets() {
+  const files = await listJsonFiles(dataPath("presets"));
+  const presets = await Promise.all(files.map((file) => readJsonFile<Preset>(file)));
+  return presets
+    .filter((preset): preset is Preset => preset !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPreset(id: string) {
+  if (!isSafeId(id)) return null;
+  return readJsonFile<Preset>(presetFile(id));
+}
+
+export async function savePreset(
+  name: string,
+  settings: ParsedWorkflowSettings,
+  id: string = randomUUID(),
+) {
+  const preset: Preset = { id, name, settings, updatedAt: new Date().toISOString() };
+  await writeJsonFile(presetFile(id), preset);
+  return preset;
+}
+
+export async function deletePreset(id: string) {
+  if (!isSafeId(id)) return false;
+  return removeFile(presetFile(id));
+}
@@ -0,0 +1,141 @@
+import { buildStoriesFromPosts, draftOpening } from "@/lib/ai";
+import { citeBeats, withCommentContext } from "@/lib/comments";
+import type { PostWithComments } from "@/lib/ingest";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import type { RedditPost } from "@/lib/selection";
+import { checkStory } from "@/lib/story-validation";
+import { buildTemplateStory } from "@/lib/template-provider";
+import type { Story, StoryOpening, StoryProviderId } from "@/lib/types";
+
+export type StoryProvider = {
+  id: StoryProviderId;
+  label: string;
+  /** Whether `redraftStory` writes fresh text for each beat, so one beat can be regenerated. */
+  regeneratesBeats: boolean;
+  generateStories(posts: PostWithComments[], settings: ParsedWorkflowSettings): Promise<Story[]>;
+  /** Drafts an alternative take on an existing story, using its beats as the source text. */
+  redraftStory(story: Story, settings: ParsedWorkflowSettings, variant: number): Promise<Story>;
+  /** Drafts only an alternative hook, title and thumbnail prompt for a finished story. */
+  draftOpening(story: Story, settings: ParsedWorkflowSettings, variant: number): Promise<StoryOpening>;
+};
+
+/** Rebuilds a post-shaped context from a story so providers can redraft it. */
+function storyAsPost(story: Story) {
+  const context: Partial<RedditPost> = {
+    id: story.id,
+    title: story.title,
+    selftext: story.beats.map((beat) => beat.voiceover).join(" "),
+    permalink: new URL(story.sourceUrl).pathname,
+    url: story.sourceUrl,
+  };
+  return context as RedditPost;
+}
+
+const providers: Record<StoryProviderId, StoryProvider> = {
+  llm: {
+    id: "llm",
+    label: "Configured LLM",
+    regeneratesBeats: true,
+    // The model only reads the post body, so replies are folded into it.
+    generateStories: (posts, settings) =>
+      buildStoriesFromPosts(
+        posts.map(({ comments = [], ...post }) => ({
+          ...post,
+          selftext: withCommentContext(post.selftext, comments),
+        })),
+        settings,
+      ),
+    redraftStory: async (story, settings) => {
+      const [draft] = await buildStoriesFromPosts([storyAsPost(story)], settings);
+      if (!draft) throw new Error("The model returned no story to regenerate from.");
+      return draft;
+    },
+    draftOpening,
+  },
+  template: {
+    id: "template",
+    label: "Offline templates",
+    // Templates re-split the story's own voiceover, so a redrafted beat reads the same.
+    regeneratesBeats: false,
+    generateStories: async (posts, settings) =>
+      posts.map((post) => buildTemplateStory(post, settings)),
+    redraftStory: async (story, settings, variant) =>
+      buildTemplateStory(storyAsPost(story), settings, Math.max(variant, 1)),
+    draftOpening: async (story, settings, variant) => {
+      const { hook, title, thumbnailPrompt } = buildTemplateStory(
+        storyAsPost(story),
+        settings,
+        Math.max(variant, 1),
+      );
+      return { hook, title, thumbnailPrompt };
+    },
+  },
+};
+
+export const PROVIDER_IDS = Object.keys(providers) as [StoryProviderId, ...StoryProviderId[]];
+
+function isProviderId(value: string): value is StoryProviderId {
+  return value in providers;
+}
+
+export function getProvider(id: StoryProviderId) {
+  return providers[id];
+}
+
+/**
+ * Resolves the provider for a run: an explicit request setting wins, then the
+ * STORY_PROVIDER environment variable, then the configured LLM.
+ */
+export function resolveProvider(settings: Pick<ParsedWorkflowSettings, "provider">) {
+  if (settings.provider) return providers[settings.provider];
+  const configured = process.env.STORY_PROVIDER;
+  if (!configured) return providers.llm;
+  if (!isProviderId(configured)) {
+    throw new Error(`Unknown STORY_PROVIDER "${configured}". Expected one of: ${PROVIDER_IDS.join(", ")}.`);
+  }
+  return providers[configured];
+}
+
+/** The provider that wrote the story, falling back to the run's provider. */
+export function storyProvider(story: Story, settings: ParsedWorkflowSettings) {
+  return story.provider ? getProvider(story.provider) : resolveProvider(settings);
+}
+
+/** Redrafts with the provider that wrote the story. */
+export function redraftStory(story: Story, settings: ParsedWorkflowSettings, variant: number) {
+  return storyProvider(story, settings).redraftStory(story, settings, variant);
+}
+
+/** Drafts an alternative opening with the provider that wrote the story. */
+export function draftStoryOpening(story: Story, settings: ParsedWorkflowSettings, variant: number) {
+  return storyProvider(story, settings).draftOpening(story, settings, variant);
+}
+
+/**
+ * Generates stories, repairs and validates each one, and tags it with the
+ * provider that produced it. A story that still violates the contract is
+ * regenerated once from its post; if the retry is no better it is returned
+ * flagged with its violations. Beats are then cited against the post's replies.
+ */
+export async function generateStories(posts: PostWithComments[], settings: ParsedWorkflowSettings) {
+  const provider = resolveProvider(settings);
+  const drafts = await provider.generateStories(posts, settings);
+  const stories: Story[] = [];
+
+  for (const [index, draft] of drafts.entries()) {
+    let story = checkStory(draft, settings);
+    const post = posts[index];
+
+    if (story.validation.status === "flagged" && post) {
+      const [retry] = await provider.generateStories([post], settings).catch(() => []);
+      const retried = retry ? checkStory(retry, settings) : null;
+      if (retried && retried.validation.violations.length < story.validation.violations.length) {
+        story = retried;
+      }
+    }
+
+    stories.push({ ...citeBeats(story, post?.comments ?? []), provider: provider.id });
+  }
+
+  return stories;
+}
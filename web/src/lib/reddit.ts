@@ -0,0 +1,111 @@
+export type RedditPost = {
+  id: string;
+  title: string;
+  selftext: string;
+  author: string;
+  score: number;
+  numComments: number;
+  permalink: string;
+  url: string;
+  over18: boolean;
+  spoiler: boolean;
+  stickied: boolean;
+  createdUtc: number;
+  subreddit: string;
+};
+
+type RedditListing = {
+  data?: {
+    children?: Array<{
+      kind: string;
+      data: {
+        id: string;
+        title?: string;
+        selftext?: string;
+        author?: string;
+        score?: number;
+        num_comments?: number;
+        permalink?: string;
+        url?: string;
+        over_18?: boolean;
+        is_self?: boolean;
+        spoiler?: boolean;
+        stickied?: boolean;
+        created_utc?: number;
+        subreddit?: string;
+      };
+    }>;
+  };
+};
+
+/** A listing request Reddit refused; ingest turns it into a typed error. */
+export class RedditResponseError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Headers,
+    /** Reddit's own explanation, e.g. "private", "quarantined" or "banned". */
+    readonly reason?: string,
+  ) {
+    super(message);
+    this.name = "RedditResponseError";
+  }
+}
+
+const USER_AGENT = process.env.REDDIT_USER_AGENT ?? "reddit-shorts-workflow/1.0";
+
+/** Reddit caps a listing page at 100 posts. */
+const MAX_LIMIT = 100;
+
+/**
+ * Fetches the top posts of a subreddit for a timeframe from the public JSON
+ * listing. Only text posts are returned, since a story needs something to
+ * script: a body, or for title-only question threads, the replies.
+ */
+export async function fetchTopRedditPosts(
+  subreddit: string,
+  timeframe: string,
+  limit: number,
+): Promise<RedditPost[]> {
+  const params = new URLSearchParams({
+    t: timeframe,
+    limit: String(Math.min(Math.max(limit, 1), MAX_LIMIT)),
+    raw_json: "1",
+  });
+  const res = await fetch(
+    `https://www.reddit.com/r/${encodeURIComponent(subreddit)}/top.json?${params}`,
+    { headers: { "User-Agent": USER_AGENT }, redirect: "manual" },
+  );
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { reason?: string } | null;
+    throw new RedditResponseError(
+      `Reddit returned ${res.status} for r/${subreddit}.`,
+      res.status,
+      res.headers,
+      body?.reason,
+    );
+  }
+
+  const listing = (await res.json()) as RedditListing;
+  return (listing.data?.children ?? [])
+    .filter(
+      ({ kind, data }) =>
+        kind === "t3" &&
+        (Boolean(data.selftext?.trim()) || (data.is_self !== false && (data.num_comments ?? 0) > 0)),
+    )
+    .map(({ data }) => ({
+      id: data.id,
+      title: data.title ?? "",
+      selftext: data.selftext ?? "",
+      author: data.author ?? "[deleted]",
+      score: data.score ?? 0,
+      numComments: data.num_comments ?? 0,
+      permalink: data.permalink ?? `/r/${subreddit}/comments/${data.id}/`,
+      url: data.url ?? `https://www.reddit.com/r/${subreddit}/comments/${data.id}/`,
+      over18: data.over_18 ?? false,
+      spoiler: data.spoiler ?? false,
+      stickied: data.stickied ?? false,
+      createdUtc: data.created_utc ?? 0,
+      subreddit: data.subreddit ?? subreddit,
+    }));
+}
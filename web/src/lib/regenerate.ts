@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { storyProvider } from "@/lib/providers";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import { validateStory, voiceoverBudget } from "@/lib/story-validation";
+import { truncateWords } from "@/lib/text";
+import type { Story } from "@/lib/types";
+
+export const REGENERABLE_FIELDS = [
+  "hook",
+  "callToAction",
+  "soundtrackPrompt",
+  "thumbnailPrompt",
+] as const;
+
+export const regenerateTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("beat"), beatIndex: z.number().int().min(0) }),
+  z.object({ kind: z.literal("field"), field: z.enum(REGENERABLE_FIELDS) }),
+]);
+
+export type RegenerateTarget = z.infer<typeof regenerateTargetSchema>;
+
+/** The story's provider cannot regenerate the requested part. */
+export class RegenerationUnsupportedError extends Error {}
+
+/**
+ * Regenerates one beat or one field of a story. The provider redrafts the
+ * whole story from its current beats, and only the requested part is copied
+ * back; the beat keeps its slot in the timeline.
+ */
+export async function regenerateStoryPart(
+  story: Story,
+  target: RegenerateTarget,
+  settings: ParsedWorkflowSettings,
+  variant: number,
+): Promise<Story> {
+  if (target.kind === "beat" && !story.beats[target.beatIndex]) {
+    throw new RangeError(`Story has no beat ${target.beatIndex + 1}.`);
+  }
+  const provider = storyProvider(story, settings);
+  if (target.kind === "beat" && !provider.regeneratesBeats) {
+    throw new RegenerationUnsupportedError(
+      `The ${provider.label.toLowerCase()} provider can't regenerate a single beat; edit its text instead.`,
+    );
+  }
+
+  const draft = await provider.redraftStory(story, settings, variant);
+  let next: Story;
+
+  if (target.kind === "beat") {
+    const current = story.beats[target.beatIndex];
+    const source = draft.beats[Math.min(target.beatIndex, draft.beats.length - 1)];
+    if (!source) throw new Error("The provider returned no beats.");
+
+    const voiceover = truncateWords(source.voiceover, voiceoverBudget(current.duration, settings));
+    next = {
+      ...story,
+      beats: story.beats.map((beat, index) =>
+        index === target.beatIndex
+          ? {
+              ...source,
+              voiceover,
+              timestamp: current.timestamp,
+              duration: current.duration,
+              comment: source.comment ?? current.comment,
+            }
+          : beat,
+      ),
+      audio: undefined,
+    };
+  } else {
+    next = { ...story, [target.field]: draft[target.field] };
+  }
+
+  return { ...next, validation: validateStory(next, settings) };
+}
@@ -0,0 +1,299 @@
+import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { getRun } from "@/lib/history";
+import { createJobQueue } from "@/lib/jobs";
+import { dataPath, isSafeId, listJsonFiles, readJsonFile, writeJsonFile } from "@/lib/store";
+import { storyAudioFile } from "@/lib/tts";
+import type { RenderJob, Story } from "@/lib/types";
+
+const WIDTH = 1080;
+const HEIGHT = 1920;
+const FPS = 30;
+const HOOK_SECONDS = 2.5;
+const CTA_SECONDS = 3;
+const PALETTE = ["0x0f172a", "0x1e1b4b", "0x172554", "0x3b0764", "0x082f49", "0x1c1917"];
+
+/** ffmpeg is CPU-bound; one render at a time unless the host has cores to spare. */
+const MAX_RENDERS = Number(process.env.RENDER_CONCURRENCY) || 1;
+
+/** Jobs queued or running in this process; anything else still "rendering" was interrupted. */
+const activeJobs = new Set<string>();
+
+/** The open job per run and story, so repeated clicks join it instead of queueing another. */
+const openJobs = new Map<string, RenderJob>();
+
+const storyKey = (runId: string, storyId: string) => `${runId}/${storyId}`;
+
+const jobFile = (id: string) => dataPath("renders", `${id}.json`);
+
+export function renderVideoFile(jobId: string) {
+  return isSafeId(jobId) ? dataPath("renders", `${jobId}.mp4`) : null;
+}
+
+function settle(job: RenderJob): RenderJob {
+  if ((job.status === "queued" || job.status === "rendering") && !activeJobs.has(job.id)) {
+    return { ...job, status: "failed", error: "Render was interrupted by a server restart." };
+  }
+  return job;
+}
+
+export async function getRenderJob(id: string) {
+  if (!isSafeId(id)) return null;
+  const job = await readJsonFile<RenderJob>(jobFile(id));
+  return job && settle(job);
+}
+
+export async function latestRenderJob(runId: string, storyId: string) {
+  const files = await listJsonFiles(dataPath("renders"));
+  const jobs = await Promise.all(files.map((file) => readJsonFile<RenderJob>(file)));
+  const matching = jobs
+    .filter((job): job is RenderJob => job?.runId === runId && job.storyId === storyId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return matching[0] ? settle(matching[0]) : null;
+}
+
+/** Hard-wraps text for drawtext, which never wraps on its own. */
+function wrapText(text: string, width: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join("\n");
+}
+
+type Card = {
+  duration: number;
+  color: string;
+  texts: { text: string; size: number; y: string; start?: number; end?: number }[];
+};
+
+function buildCards(story: Story): Card[] {
+  const hook: Card = {
+    duration: HOOK_SECONDS,
+    color: PALETTE[0],
+    texts: [{ text: wrapText(story.hook, 20), size: 78, y: "(h-text_h)/2" }],
+  };
+
+  const beats = story.beats.map((beat, index): Card => {
+    const captions = beat.captions.length > 0 ? beat.captions : [beat.voiceover];
+    const slice = beat.duration / captions.length;
+    return {
+      duration: beat.duration,
+      color: PALETTE[(index + 1) % PALETTE.length],
+      texts: [
+        { text: beat.headline.toUpperCase(), size: 44, y: "h*0.18" },
+        ...captions.map((caption, captionIndex) => ({
+          text: wrapText(caption, 18),
+          size: 84,
+          y: "(h-text_h)/2",
+          start: slice * captionIndex,
+          end: slice * (captionIndex + 1),
+        })),
+      ],
+    };
+  });
+
+  const cta: Card = {
+    duration: CTA_SECONDS,
+    color: PALETTE[0],
+    texts: [{ text: wrapText(story.callToAction, 22), size: 70, y: "(h-text_h)/2" }],
+  };
+
+  return [hook, ...beats, cta];
+}
+
+/**
+ * Escapes a filter option value for use inside -filter_complex: once for the
+ * option parser (`\`, `:` and `'`) and once for the filtergraph parser.
+ */
+function escapeFilterValue(value: string) {
+  const option = value.replace(/[\\:']/g, (char) => `\\${char}`);
+  return option.replace(/[\\'[\],;]/g, (char) => `\\${char}`);
+}
+
+async function buildFfmpegArgs(story: Story, workDir: string, audioFile: string | null, outFile: string) {
+  const cards = buildCards(story);
+  const total = cards.reduce((acc, card) => acc + card.duration, 0);
+  const font = process.env.RENDER_FONT_FILE
+    ? `:fontfile=${escapeFilterValue(process.env.RENDER_FONT_FILE)}`
+    : "";
+  const inputs: string[] = [];
+  const filters: string[] = [];
+
+  let textIndex = 0;
+  for (const [index, card] of cards.entries()) {
+    inputs.push("-f", "lavfi", "-i", `color=c=${card.color}:s=${WIDTH}x${HEIGHT}:r=${FPS}:d=${card.duration}`);
+    let label = `${index}:v`;
+    for (const text of card.texts) {
+      // Read verbatim: expansion=none keeps a "%" in a caption from being parsed as a sequence.
+      const textFile = path.join(workDir, `text-${textIndex}.txt`);
+      await fs.writeFile(textFile, text.text);
+      const enable =
+        text.start !== undefined ? `:enable='between(t,${text.start.toFixed(3)},${text.end?.toFixed(3)})'` : "";
+      const next = `t${textIndex}`;
+      filters.push(
+        `[${label}]drawtext=textfile=${escapeFilterValue(textFile)}:expansion=none${font}:fontsize=${text.size}:fontcolor=white:line_spacing=12:borderw=4:bordercolor=black@0.6:x=(w-text_w)/2:y=${text.y}${enable}[${next}]`,
+      );
+      label = next;
+      textIndex += 1;
+    }
+    filters.push(`[${label}]setsar=1[v${index}]`);
+  }
+  filters.push(`${cards.map((_, index) => `[v${index}]`).join("")}concat=n=${cards.length}:v=1:a=0[video]`);
+
+  const audioInput = cards.length;
+  if (audioFile) {
+    const delay = Math.round(HOOK_SECONDS * 1000);
+    inputs.push("-i", audioFile);
+    filters.push(`[${audioInput}:a]adelay=${delay}:all=1,apad[audio]`);
+  } else {
+    inputs.push("-f", "lavfi", "-i", "anullsrc=r=44100:cl=stereo");
+    filters.push(`[${audioInput}:a]anull[audio]`);
+  }
+
+  return {
+    total,
+    args: [
+      "-y",
+      ...inputs,
+      "-filter_complex",
+      filters.join(";"),
+      "-map",
+      "[video]",
+      "-map",
+      "[audio]",
+      "-t",
+      total.toFixed(3),
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "aac",
+      "-movflags",
+      "+faststart",
+      outFile,
+    ],
+  };
+}
+
+function runFfmpeg(args: string[], total: number, onProgress: (ratio: number) => void) {
+  const binary = process.env.FFMPEG_BINARY ?? "ffmpeg";
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["ignore", "ignore", "pipe"] });
+    let tail = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      tail = (tail + chunk.toString()).slice(-4000);
+      const match = /time=(\d+):(\d+):(\d+(?:\.\d+)?)/.exec(chunk.toString());
+      if (match) {
+        const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+        onProgress(Math.min(seconds / total, 1));
+      }
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`ffmpeg binary "${binary}" is not installed or not on PATH.`)
+          : error,
+      );
+    });
+    child.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`ffmpeg exited with code ${code}: ${tail.trim().split("\n").pop()}`));
+    });
+  });
+}
+
+async function processJob({ job, story }: { job: RenderJob; story: Story }) {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "shorts-render-"));
+  // Writes are chained so a late progress update never overwrites the final status.
+  let writes = Promise.resolve();
+  const persist = () => {
+    const snapshot = { ...job };
+    writes = writes.then(() => writeJsonFile(jobFile(job.id), snapshot));
+    return writes;
+  };
+  const update = (patch: Partial<RenderJob>) => {
+    Object.assign(job, patch);
+    return persist();
+  };
+
+  try {
+    const outFile = renderVideoFile(job.id);
+    if (!outFile) throw new Error("Invalid render job id");
+
+    const audioFile = story.audio ? storyAudioFile(job.runId, story.id) : null;
+    const hasAudio = audioFile ? await fs.stat(audioFile).then(() => true, () => false) : false;
+
+    const { args, total } = await buildFfmpegArgs(story, workDir, hasAudio ? audioFile : null, outFile);
+    await update({ status: "rendering" });
+
+    let lastWrite = 0;
+    await runFfmpeg(args, total, (ratio) => {
+      job.progress = ratio;
+      if (Date.now() - lastWrite > 1000) {
+        lastWrite = Date.now();
+        void persist();
+      }
+    });
+
+    await update({
+      status: "done",
+      progress: 1,
+      videoUrl: `/api/renders/${job.id}/video`,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Video render failed", error);
+    await update({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      finishedAt: new Date().toISOString(),
+    });
+  } finally {
+    activeJobs.delete(job.id);
+    openJobs.delete(storyKey(job.runId, job.storyId));
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+const renderQueue = createJobQueue(MAX_RENDERS, processJob);
+
+/**
+ * Queues a draft render and returns immediately; poll the job for progress.
+ * A story that already has a render queued or running gets that job back.
+ */
+export async function startRenderJob(runId: string, storyId: string) {
+  const run = await getRun(runId);
+  const story = run?.stories.find((item) => item.id === storyId);
+  if (!story) return null;
+
+  const open = openJobs.get(storyKey(runId, storyId));
+  if (open) return open;
+
+  const job: RenderJob = {
+    id: randomUUID(),
+    runId,
+    storyId,
+    status: "queued",
+    progress: 0,
+    createdAt: new Date().toISOString(),
+  };
+  activeJobs.add(job.id);
+  openJobs.set(storyKey(runId, storyId), job);
+  await writeJsonFile(jobFile(job.id), job);
+  renderQueue.push({ job, story });
+  return job;
+}
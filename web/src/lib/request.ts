@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { runSettingsSchema } from "@/lib/contract";
+import { workflowRequestSchema } from "@/lib/schema";
+
+/**
+ * A workflow request: the core fields are checked strictly, and every other
+ * option, with its default, comes from the recorded run settings.
+ */
+export const workflowSettingsSchema = runSettingsSchema.extend(workflowRequestSchema.shape);
+
+export type ParsedWorkflowSettings = z.infer<typeof workflowSettingsSchema>;
+
+/** Coerces form-style values before validation so string inputs still parse. */
+export function parseWorkflowRequest(json: Record<string, unknown>) {
+  return workflowSettingsSchema.safeParse({
+    ...json,
+    storyCount: Number(json.storyCount),
+    duration: Number(json.duration),
+    includeBroll: Boolean(json.includeBroll),
+    allowRepeats: Boolean(json.allowRepeats),
+  });
+}
@@ -0,0 +1,51 @@
+export type RetryOptions = {
+  attempts?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?(error: unknown): boolean;
+  onRetry?(attempt: number, delayMs: number, error: unknown): void;
+};
+
+const DEFAULT_ATTEMPTS = Number(process.env.WORKFLOW_RETRY_ATTEMPTS) || 3;
+const DEFAULT_BASE_DELAY_MS = Number(process.env.WORKFLOW_RETRY_DELAY_MS) || 1000;
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Runs a task until it succeeds, doubling the wait after each failed attempt. */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}) {
+  const {
+    attempts = DEFAULT_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    signal,
+    shouldRetry = () => true,
+    onRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt += 1) {
+    signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || signal?.aborted || !shouldRetry(error)) throw error;
+      const delayMs = baseDelayMs * 2 ** (attempt - 1);
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
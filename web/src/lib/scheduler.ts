@@ -0,0 +1,93 @@
+import { claimRun } from "@/lib/auth";
+import { getRun } from "@/lib/history";
+import { enqueueWorkflowJob, waitForWorkflowJob } from "@/lib/jobs";
+import { parseWorkflowRequest } from "@/lib/request";
+import { claimScheduleSlot, isDue, listSchedules, recordScheduleRun } from "@/lib/schedules";
+import { isAuthEnabled } from "@/lib/session";
+import type { Schedule } from "@/lib/types";
+
+const TICK_MS = 30_000;
+
+/** Kept on globalThis so hot reloads and separate route bundles share one timer. */
+const state = globalThis as typeof globalThis & {
+  workflowScheduler?: NodeJS.Timeout;
+  /** Set while a tick's runs are still going, so a slow run never overlaps the next tick. */
+  workflowSchedulerBusy?: boolean;
+};
+
+async function runSchedule(schedule: Schedule, now: Date) {
+  const claimed = await claimScheduleSlot(schedule.id, now);
+  if (!claimed) return;
+
+  const startedAt = new Date().toISOString();
+  const settings = parseWorkflowRequest(claimed.settings);
+  if (!settings.success) {
+    await recordScheduleRun(schedule.id, {
+      jobId: "",
+      startedAt,
+      finishedAt: startedAt,
+      status: "failed",
+      error: "Stored settings no longer pass validation.",
+    });
+    return;
+  }
+
+  // Schedules are managed from the UI, so their runs draw on the UI's shared quota.
+  const claim = await claimRun(
+    isAuthEnabled() ? { kind: "session" } : { kind: "open" },
+    settings.data.storyCount,
+    "schedule",
+  );
+  if (claim.response) {
+    const { error } = (await claim.response.json()) as { error: string };
+    await recordScheduleRun(schedule.id, {
+      jobId: "",
+      startedAt,
+      finishedAt: startedAt,
+      status: "failed",
+      error,
+    });
+    return;
+  }
+
+  const queued = await enqueueWorkflowJob(settings.data);
+  const job = (await waitForWorkflowJob(queued.id)) ?? queued;
+  await claim.finish(job.runId ? await getRun(job.runId) : null);
+  await recordScheduleRun(schedule.id, {
+    jobId: job.id,
+    startedAt,
+    finishedAt: job.finishedAt ?? new Date().toISOString(),
+    status: job.status === "done" ? "done" : job.status === "cancelled" ? "cancelled" : "failed",
+    runId: job.runId,
+    error: job.error,
+  });
+}
+
+/** Starts every schedule whose next run time has passed. */
+export async function runDueSchedules(now = new Date()) {
+  const due = (await listSchedules()).filter((schedule) => isDue(schedule, now));
+  await Promise.all(
+    due.map((schedule) =>
+      runSchedule(schedule, now).catch((error) => {
+        console.error(`Scheduled run "${schedule.name}" failed`, error);
+      }),
+    ),
+  );
+}
+
+/** Starts the in-process scheduler once; set WORKFLOW_SCHEDULER=off to disable it. */
+export function startScheduler() {
+  if (state.workflowScheduler || process.env.WORKFLOW_SCHEDULER === "off") return;
+
+  const tick = () => {
+    if (state.workflowSchedulerBusy) return;
+    state.workflowSchedulerBusy = true;
+    runDueSchedules()
+      .catch((error) => console.error("Scheduler tick failed", error))
+      .finally(() => {
+        state.workflowSchedulerBusy = false;
+      });
+  };
+  state.workflowScheduler = setInterval(tick, TICK_MS);
+  tick();
+}
@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { isValidCron, nextCronTime } from "@/lib/cron";
+import { workflowSettingsSchema } from "@/lib/request";
+import {
+  dataPath,
+  isSafeId,
+  listJsonFiles,
+  readJsonFile,
+  removeFile,
+  writeJsonFile,
+} from "@/lib/store";
+import type { Schedule, ScheduleRun } from "@/lib/types";
+
+const MAX_RECORDED_RUNS = 20;
+
+const cronSchema = z
+  .string()
+  .trim()
+  .refine(isValidCron, "Expected a five-field cron expression, e.g. 0 7 * * *");
+
+export const scheduleInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  cron: cronSchema,
+  settings: workflowSettingsSchema,
+  paused: z.boolean().default(false),
+});
+
+export const scheduleUpdateSchema = scheduleInputSchema.partial();
+
+export type ScheduleInput = z.infer<typeof scheduleInputSchema>;
+export type ScheduleUpdate = z.infer<typeof scheduleUpdateSchema>;
+
+const scheduleFile = (id: string) => dataPath("schedules", `${id}.json`);
+
+/** Per-schedule write chains so the scheduler and the API never drop each other's edits. */
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/** `change` returns null to leave the schedule untouched. */
+function mutateSchedule(id: string, change: (schedule: Schedule) => Schedule | null) {
+  const previous = pendingWrites.get(id) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const schedule = await getSchedule(id);
+    if (!schedule) return null;
+    const changed = change(schedule);
+    if (!changed) return null;
+    const updated = { ...changed, updatedAt: new Date().toISOString() };
+    await writeJsonFile(scheduleFile(id), updated);
+    return updated;
+  });
+  pendingWrites.set(id, next.catch(() => undefined));
+  return next;
+}
+
+export function nextRunAt(cron: string, after = new Date()) {
+  return nextCronTime(cron, after)?.toISOString() ?? null;
+}
+
+export function isDue(schedule: Schedule, now: Date) {
+  return !schedule.paused && schedule.nextRunAt !== null && schedule.nextRunAt <= now.toISOString();
+}
+
+export async function listSchedules() {
+  const files = await listJsonFiles(dataPath("schedules"));
+  const schedules = await Promise.all(files.map((file) => readJsonFile<Schedule>(file)));
+  return schedules
+    .filter((schedule): schedule is Schedule => schedule !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSchedule(id: string) {
+  if (!isSafeId(id)) return null;
+  return readJsonFile<Schedule>(scheduleFile(id));
+}
+
+export async function createSchedule(input: ScheduleInput) {
+  const now = new Date().toISOString();
+  const schedule: Schedule = {
+    id: randomUUID(),
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: nextRunAt(input.cron),
+    runs: [],
+  };
+  await writeJsonFile(scheduleFile(schedule.id), schedule);
+  return schedule;
+}
+
+/** Applies an edit; a new cadence or a resume recomputes the next run from now. */
+export function updateSchedule(id: string, update: ScheduleUpdate) {
+  return mutateSchedule(id, (schedule) => {
+    const updated = { ...schedule, ...update };
+    const rescheduled =
+      (update.cron !== undefined && update.cron !== schedule.cron) ||
+      (schedule.paused && update.paused === false);
+    return rescheduled ? { ...updated, nextRunAt: nextRunAt(updated.cron) } : updated;
+  });
+}
+
+/**
+ * Moves a schedule past its current slot before running, so it only fires
+ * once. The stored schedule is checked again under the write chain: one that
+ * was paused, deleted or already claimed since it was listed returns null.
+ */
+export function claimScheduleSlot(id: string, now: Date) {
+  return mutateSchedule(id, (schedule) => {
+    if (!isDue(schedule, now)) return null;
+    return { ...schedule, nextRunAt: nextRunAt(schedule.cron, now) };
+  });
+}
+
+export function recordScheduleRun(id: string, run: ScheduleRun) {
+  return mutateSchedule(id, (schedule) => ({
+    ...schedule,
+    runs: [run, ...schedule.runs].slice(0, MAX_RECORDED_RUNS),
+  }));
+}
+
+export async function deleteSchedule(id: string) {
+  if (!isSafeId(id)) return false;
+  await pendingWrites.get(id);
+  pendingWrites.delete(id);
+  return removeFile(scheduleFile(id));
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+/** The core settings every workflow request carries; the extended options live in contract.ts. */
+export const workflowRequestSchema = z.object({
+  subreddit: z
+    .string()
+    .trim()
+    .min(2, "Subreddit names are at least 2 characters.")
+    .max(21, "Subreddit names are at most 21 characters.")
+    .regex(/^[A-Za-z0-9_]+$/, "Use the subreddit name without r/ or spaces."),
+  timeframe: z.enum(["day", "week", "month", "year", "all"]),
+  storyCount: z.number().int().min(1).max(5),
+  duration: z.number().int().min(30).max(60),
+  voiceProfile: z.enum(["narrator", "friendly", "dramatic"]),
+  includeBroll: z.boolean(),
+});
+
+export type WorkflowRequest = z.infer<typeof workflowRequestSchema>;
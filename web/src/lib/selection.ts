@@ -0,0 +1,74 @@
+import type { fetchTopRedditPosts } from "@/lib/reddit";
+import { rankPosts, rejectionReasons } from "@/lib/filters";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import type { CandidateGroup } from "@/lib/sources";
+import type { RejectedCandidate } from "@/lib/types";
+
+export type RedditPost = Awaited<ReturnType<typeof fetchTopRedditPosts>>[number];
+
+export type Selection = {
+  posts: RedditPost[];
+  candidates: number;
+  skippedDuplicates: number;
+  rejected: RejectedCandidate[];
+};
+
+/**
+ * Picks the posts to script from the fetched candidates. Posts already used by
+ * an earlier package (unless repeats are allowed) or failing the content
+ * filters are rejected with a reason. Each source then fills its weighted
+ * quota from its own ranked posts, and any shortfall is filled from the best
+ * leftovers across all sources.
+ */
+export function selectPosts(
+  groups: CandidateGroup[],
+  settings: ParsedWorkflowSettings,
+  usedPostIds: Set<string>,
+): Selection {
+  const usedIds = settings.allowRepeats ? new Set<string>() : usedPostIds;
+  const seenIds = new Set<string>();
+  const rejected: RejectedCandidate[] = [];
+  const posts: RedditPost[] = [];
+  const leftovers: RedditPost[] = [];
+  let candidates = 0;
+  let skippedDuplicates = 0;
+
+  for (const group of groups) {
+    const eligible: RedditPost[] = [];
+
+    for (const post of group.posts) {
+      if (seenIds.has(post.id)) continue;
+      seenIds.add(post.id);
+      candidates += 1;
+
+      const reasons = rejectionReasons(post, settings.filters, settings);
+      if (usedIds.has(post.id)) {
+        skippedDuplicates += 1;
+        reasons.unshift("already used in an earlier package");
+      }
+      if (reasons.length > 0) {
+        rejected.push({ postId: post.id, title: post.title, reasons });
+      } else {
+        eligible.push(post);
+      }
+    }
+
+    const ranked = rankPosts(eligible, settings.ranking, settings);
+    posts.push(...ranked.slice(0, group.quota));
+    leftovers.push(...ranked.slice(group.quota));
+  }
+
+  const rankedLeftovers = rankPosts(leftovers, settings.ranking, settings);
+  const shortfall = Math.max(settings.storyCount - posts.length, 0);
+  posts.push(...rankedLeftovers.slice(0, shortfall));
+
+  for (const post of rankedLeftovers.slice(shortfall)) {
+    rejected.push({
+      postId: post.id,
+      title: post.title,
+      reasons: [`ranked below the top ${settings.storyCount} by ${settings.ranking}`],
+    });
+  }
+
+  return { posts, candidates, skippedDuplicates, rejected };
+}
@@ -0,0 +1,62 @@
+/**
+ * Signed session cookies for the browser UI. Runs in both the edge middleware
+ * and route handlers, so it only uses Web Crypto.
+ */
+export const SESSION_COOKIE = "shorts_session";
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+/** API auth is enforced once SESSION_SECRET is set; without it the API stays open for local use. */
+export function isAuthEnabled() {
+  return !!process.env.SESSION_SECRET;
+}
+
+/**
+ * Sessions stand in for API keys, so they are only handed out behind
+ * UI_PASSWORD. Checked at startup: with SESSION_SECRET alone, every visitor
+ * would get one.
+ */
+export function assertSessionConfig() {
+  if (isAuthEnabled() && !process.env.UI_PASSWORD) {
+    throw new Error("SESSION_SECRET is set without UI_PASSWORD. Set UI_PASSWORD to protect UI sessions.");
+  }
+}
+
+function toBase64Url(bytes: ArrayBuffer) {
+  let binary = "";
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function sign(value: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(process.env.SESSION_SECRET ?? ""),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(value)));
+}
+
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    diff |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return diff === 0;
+}
+
+export async function createSessionToken(now = Date.now()) {
+  const payload = `${crypto.randomUUID()}.${Math.floor(now / 1000) + SESSION_TTL_SECONDS}`;
+  return `${payload}.${await sign(payload)}`;
+}
+
+export async function verifySessionToken(token: string, now = Date.now()) {
+  const [id, expires, signature] = token.split(".");
+  if (!id || !expires || !signature || !isAuthEnabled()) return false;
+  if (Number(expires) * 1000 < now) return false;
+  return safeEqual(signature, await sign(`${id}.${expires}`));
+}
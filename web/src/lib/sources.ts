@@ -0,0 +1,65 @@
+import { fetchSubredditPosts } from "@/lib/ingest";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import type { RedditPost } from "@/lib/selection";
+import type { SubredditSource } from "@/lib/types";
+
+/** Reddit serves at most this many posts per listing request. */
+const LISTING_LIMIT = 100;
+
+export type CandidateGroup = {
+  subreddit: string;
+  quota: number;
+  posts: RedditPost[];
+};
+
+export function resolveSources(
+  settings: Pick<ParsedWorkflowSettings, "subreddit" | "sources">,
+): SubredditSource[] {
+  return settings.sources.length > 0
+    ? settings.sources
+    : [{ subreddit: settings.subreddit, weight: 1 }];
+}
+
+/** Splits the story count across sources by weight (largest remainder). */
+export function allocateQuotas(sources: SubredditSource[], storyCount: number) {
+  const totalWeight = sources.reduce((acc, source) => acc + source.weight, 0);
+  const exact = sources.map((source) => (source.weight / totalWeight) * storyCount);
+  const quotas = exact.map(Math.floor);
+  let remaining = storyCount - quotas.reduce((acc, quota) => acc + quota, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining === 0) break;
+    quotas[index] += 1;
+    remaining -= 1;
+  }
+
+  return quotas;
+}
+
+/**
+ * Fetches candidates from every source. Each source over-fetches relative to
+ * its quota so filtered or already-used posts can be replaced, and sources
+ * with a zero quota still contribute a few fallback candidates. Requests are
+ * capped at one listing page, which large batches can reach.
+ */
+export async function fetchCandidateGroups(
+  settings: ParsedWorkflowSettings,
+): Promise<CandidateGroup[]> {
+  const sources = resolveSources(settings);
+  const quotas = allocateQuotas(sources, settings.storyCount);
+
+  return Promise.all(
+    sources.map(async (source, index) => ({
+      subreddit: source.subreddit,
+      quota: quotas[index],
+      posts: await fetchSubredditPosts(
+        source.subreddit,
+        settings.timeframe,
+        Math.min(Math.max(quotas[index], 1) * 3, LISTING_LIMIT),
+      ),
+    })),
+  );
+}
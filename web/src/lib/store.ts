@@ -0,0 +1,56 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const DATA_DIR = process.env.WORKFLOW_DATA_DIR ?? path.join(process.cwd(), "data");
+
+export function dataPath(...segments: string[]) {
+  return path.join(DATA_DIR, ...segments);
+}
+
+export function isSafeId(id: string) {
+  return /^[\w-]+$/.test(id);
+}
+
+function isMissing(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+/** Writes through a temp file so readers never see a half-written document. */
+export async function writeJsonFile(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value, null, 2));
+  await fs.rename(temp, file);
+}
+
+export async function removeFile(file: string) {
+  try {
+    await fs.unlink(file);
+    return true;
+  } catch (error) {
+    if (isMissing(error)) return false;
+    throw error;
+  }
+}
+
+export async function listJsonFiles(dir: string) {
+  try {
+    const entries = await fs.readdir(dir);
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => path.join(dir, entry));
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+}
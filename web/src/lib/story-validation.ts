@@ -0,0 +1,186 @@
+import { z } from "zod";
+import { chunkWords, countWords, normalizeWhitespace, truncateWords } from "@/lib/text";
+import { tileDurations, WORDS_PER_SECOND } from "@/lib/timing";
+import type { Story, StoryBeat, StoryValidation, WorkflowSettings } from "@/lib/types";
+
+type TimingSettings = Pick<WorkflowSettings, "duration" | "voiceProfile">;
+
+export const storyBeatSchema = z.object({
+  timestamp: z.number().min(0),
+  duration: z.number().positive(),
+  headline: z.string().trim().min(1),
+  voiceover: z.string().trim().min(1),
+  motionPrompt: z.string().trim().min(1),
+  brollPrompt: z.string().trim().min(1).optional(),
+  captions: z.array(z.string().trim().min(1)).min(1),
+  comment: z
+    .object({
+      commentId: z.string().min(1),
+      author: z.string().min(1),
+      permalink: z.string(),
+    })
+    .optional(),
+});
+
+export const storySchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1),
+    sourceUrl: z.string().url(),
+    hook: z.string().trim().min(1),
+    beats: z.array(storyBeatSchema).min(1),
+    callToAction: z.string().trim().min(1),
+    soundtrackPrompt: z.string().trim().min(1),
+    thumbnailPrompt: z.string().trim().min(1),
+    keywords: z.array(z.string().trim().min(1)),
+  })
+  .passthrough();
+
+/** The parts of a story an editor may change; everything else is kept from the stored story. */
+export const storyEditSchema = storySchema
+  .pick({
+    title: true,
+    hook: true,
+    callToAction: true,
+    soundtrackPrompt: true,
+    thumbnailPrompt: true,
+    keywords: true,
+  })
+  .extend({ beats: z.array(storyBeatSchema.strict()).min(1) })
+  .strict();
+
+export type StoryEdit = z.infer<typeof storyEditSchema>;
+
+function asStringArray(value: unknown) {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === "string");
+  if (typeof value === "string") return value.split(/[,\n•|]/);
+  return [];
+}
+
+function asText(value: unknown) {
+  return typeof value === "string" ? normalizeWhitespace(value) : "";
+}
+
+export function voiceoverBudget(duration: number, settings: TimingSettings) {
+  return Math.max(Math.floor(duration * WORDS_PER_SECOND[settings.voiceProfile]), 1);
+}
+
+/**
+ * Normalizes model output in place of trusting it: beats are re-timed to tile
+ * the target duration exactly, voiceovers are cut to the voice's speaking
+ * budget, and keyword/caption lists are coerced, trimmed and de-duplicated.
+ */
+export function repairStory(draft: Story, settings: TimingSettings) {
+  const repairs: string[] = [];
+  const rawBeats: StoryBeat[] = Array.isArray(draft.beats) ? draft.beats : [];
+
+  const originalDurations = rawBeats.map((beat) => Number(beat.duration));
+  const durations = tileDurations(
+    settings.duration,
+    originalDurations.map((duration) => (Number.isFinite(duration) && duration > 0 ? duration : 1)),
+  );
+  if (durations.some((duration, index) => duration !== originalDurations[index])) {
+    repairs.push(`Re-timed beats to fill ${settings.duration}s.`);
+  }
+
+  let timestamp = 0;
+  const beats = rawBeats.map((beat, index) => {
+    const duration = durations[index];
+    const budget = voiceoverBudget(duration, settings);
+    let voiceover = asText(beat.voiceover);
+    if (countWords(voiceover) > budget) {
+      voiceover = truncateWords(voiceover, budget);
+      repairs.push(`Trimmed beat ${index + 1} voiceover to ${budget} words.`);
+    }
+
+    const rawCaptions = asStringArray(beat.captions);
+    let captions = rawCaptions.map(normalizeWhitespace).filter(Boolean);
+    if (captions.length !== rawCaptions.length) {
+      repairs.push(`Dropped empty captions from beat ${index + 1}.`);
+    }
+    if (captions.length === 0 && voiceover) {
+      captions = chunkWords(voiceover, 4).slice(0, 4);
+      repairs.push(`Rebuilt captions for beat ${index + 1} from its voiceover.`);
+    }
+
+    const repaired: StoryBeat = {
+      timestamp,
+      duration,
+      headline: asText(beat.headline),
+      voiceover,
+      motionPrompt: asText(beat.motionPrompt),
+      captions,
+    };
+    const brollPrompt = asText(beat.brollPrompt);
+    if (brollPrompt) repaired.brollPrompt = brollPrompt;
+    if (beat.comment) repaired.comment = beat.comment;
+
+    timestamp += duration;
+    return repaired;
+  });
+
+  const rawKeywords = asStringArray(draft.keywords);
+  const seen = new Set<string>();
+  const keywords = rawKeywords
+    .map((keyword) => normalizeWhitespace(keyword))
+    .filter((keyword) => {
+      const key = keyword.toLowerCase();
+      if (!keyword || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  if (keywords.length !== rawKeywords.length) {
+    repairs.push("Removed empty or duplicate keywords.");
+  }
+
+  return { story: { ...draft, beats, keywords }, repairs };
+}
+
+/**
+ * Lists every way the story breaks the schema or the timing contract. A
+ * narrated story is held to the length of its audio, since its beats follow
+ * the measured speech.
+ */
+export function findViolations(story: Story, settings: TimingSettings) {
+  const duration = story.audio?.duration ?? settings.duration;
+  const parsed = storySchema.safeParse(story);
+  const violations = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => `${issue.path.join(".") || "story"}: ${issue.message}`);
+
+  let expected = 0;
+  story.beats.forEach((beat, index) => {
+    if (beat.timestamp !== expected) {
+      violations.push(`beats.${index}: starts at ${beat.timestamp}s instead of ${expected}s`);
+    }
+    // Narrated beats are timed to a tenth of a second.
+    expected = Math.round((beat.timestamp + beat.duration) * 10) / 10;
+    const budget = voiceoverBudget(beat.duration, settings);
+    if (countWords(beat.voiceover) > budget) {
+      violations.push(`beats.${index}.voiceover: over the ${budget}-word budget`);
+    }
+  });
+  if (expected !== duration) {
+    violations.push(`beats: end at ${expected}s instead of ${duration}s`);
+  }
+
+  return violations;
+}
+
+export function validateStory(
+  story: Story,
+  settings: TimingSettings,
+  repairs: string[] = [],
+): StoryValidation {
+  const violations = findViolations(story, settings);
+  return {
+    status: violations.length > 0 ? "flagged" : repairs.length > 0 ? "repaired" : "valid",
+    repairs,
+    violations,
+  };
+}
+
+export function checkStory(draft: Story, settings: TimingSettings) {
+  const { story, repairs } = repairStory(draft, settings);
+  return { ...story, validation: validateStory(story, settings, repairs) };
+}
@@ -0,0 +1,40 @@
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+const encoder = new TextEncoder();
+
+export function encodeNdjson(event: unknown) {
+  return encoder.encode(`${JSON.stringify(event)}\n`);
+}
+
+export function wantsNdjson(request: Request) {
+  return request.headers.get("accept")?.includes(NDJSON_CONTENT_TYPE) ?? false;
+}
+
+export async function readNdjson<T>(
+  response: Response,
+  onEvent: (event: T) => void,
+) {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onEvent(JSON.parse(line) as T);
+      newline = buffer.indexOf("\n");
+    }
+
+    if (done) break;
+  }
+
+  const rest = buffer.trim();
+  if (rest) onEvent(JSON.parse(rest) as T);
+}
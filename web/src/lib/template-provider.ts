@@ -0,0 +1,169 @@
+import type { PostWithComments } from "@/lib/ingest";
+import type { ParsedWorkflowSettings } from "@/lib/request";
+import type { RedditPost } from "@/lib/selection";
+import {
+  chunkWords,
+  countWords,
+  extractKeywords,
+  normalizeWhitespace,
+  splitSentences,
+  truncateWords,
+} from "@/lib/text";
+import { tileDurations, WORDS_PER_SECOND } from "@/lib/timing";
+import type { RedditComment, Story, StoryBeat, WorkflowSettings } from "@/lib/types";
+
+type VoiceTemplate = {
+  hookPrefix: string;
+  mood: string;
+  camera: string;
+  soundtrack: string;
+  callToAction: string;
+};
+
+const voiceTemplates: Record<WorkflowSettings["voiceProfile"], VoiceTemplate> = {
+  narrator: {
+    hookPrefix: "Here's a story Reddit can't stop talking about:",
+    mood: "moody cinematic",
+    camera: "slow push-in",
+    soundtrack: "Understated ambient piano with a low pulsing synth bed, 90 BPM",
+    callToAction: "Follow for more stories straight from Reddit.",
+  },
+  friendly: {
+    hookPrefix: "Okay, you have to hear this one:",
+    mood: "warm, bright natural",
+    camera: "handheld drift",
+    soundtrack: "Playful lo-fi beat with plucked guitar and light percussion, 100 BPM",
+    callToAction: "Tell me what you'd do in the comments and follow for part two!",
+  },
+  dramatic: {
+    hookPrefix: "This Reddit post will give you chills:",
+    mood: "high-contrast noir",
+    camera: "sharp whip-pan into a tight close-up",
+    soundtrack: "Tense cinematic strings building to booming percussion hits, 80 BPM",
+    callToAction: "Follow now — you won't want to miss the next one.",
+  },
+};
+
+/** Alternatives rotated in when a story part is regenerated (variant > 0). */
+const alternates = {
+  hookPrefix: ["Nobody saw this coming:", "Reddit is divided over this one:", "Wait until you hear how this ends:"],
+  camera: ["overhead crane down", "locked-off wide with a slow rack focus", "orbiting dolly shot", "slow push-in", "handheld drift"],
+  callToAction: [
+    "Would you have done the same? Comment below and follow.",
+    "Follow so you don't miss the update.",
+    "Share this with someone who needs to hear it.",
+  ],
+  thumbnail: ["Split-screen before/after frame", "Extreme close-up of a telling detail", "Wide shocked-crowd reaction shot"],
+};
+
+function pick(options: string[], base: string, variant: number, offset = 0) {
+  return variant === 0 ? base : options[(variant - 1 + offset) % options.length];
+}
+
+/** Title phrasings rotated in for variants; variant 0 keeps the post's own title. */
+const titleTemplates = [
+  (subject: string) => `The ${subject} story nobody saw coming`,
+  (subject: string) => `What really happened with ${subject}`,
+  (subject: string) => `Why ${subject} changed everything`,
+  (subject: string) => `Reddit can't agree on this ${subject} story`,
+];
+
+const beatHeadlines = ["The Setup", "The Spark", "The Turn", "The Fallout", "The Twist", "The Reveal", "The Ending"];
+
+function beatCount(duration: number) {
+  return Math.min(Math.max(Math.round(duration / 9), 3), 6);
+}
+
+/** Spreads units evenly over the groups, keeping their order. */
+function groupSentences(units: string[], groups: number) {
+  const result: string[][] = Array.from({ length: groups }, () => []);
+  units.forEach((unit, index) => {
+    result[Math.floor((index * groups) / units.length)].push(unit);
+  });
+  return result.map((group) => group.join(" "));
+}
+
+function splitBody(body: string, count: number) {
+  const sentences = splitSentences(body);
+  const units =
+    sentences.length >= count
+      ? sentences
+      : chunkWords(body, Math.max(Math.ceil(countWords(body) / count), 1));
+  return groupSentences(units, count);
+}
+
+function buildTitle(post: RedditPost, subject: string, variant: number) {
+  const title = normalizeWhitespace(post.title);
+  return variant === 0 ? title : titleTemplates[(variant - 1) % titleTemplates.length](subject);
+}
+
+function buildHook(post: RedditPost, template: VoiceTemplate, variant: number) {
+  const title = normalizeWhitespace(post.title);
+  if (title.endsWith("?") && variant === 0) return title;
+  return `${pick(alternates.hookPrefix, template.hookPrefix, variant)} ${title}`;
+}
+
+/**
+ * Builds a story purely from templates over the post text. Output depends only
+ * on the post, settings and variant, so it is stable across runs and needs no
+ * network; higher variants rotate in alternate phrasings for regeneration.
+ * When the post carries replies, the first beat sets up the post and each
+ * following beat narrates one reply, best first.
+ */
+export function buildTemplateStory(
+  post: PostWithComments,
+  settings: ParsedWorkflowSettings,
+  variant = 0,
+): Story {
+  const template = voiceTemplates[settings.voiceProfile];
+  const body = normalizeWhitespace(post.selftext) || normalizeWhitespace(post.title);
+  const keywords = extractKeywords(`${post.title} ${post.selftext}`, 5);
+  const subject = keywords.slice(0, 2).join(" and ") || "the story";
+
+  const count = beatCount(settings.duration);
+  const replies = (post.comments ?? []).slice(0, count - 1);
+  const sources: (RedditComment | undefined)[] = [undefined, ...replies];
+  const segments =
+    replies.length > 0
+      ? [body, ...replies.map((reply) => normalizeWhitespace(reply.body))]
+      : splitBody(body, count).map(
+          (segment, index) => segment || (index === count - 1 ? template.callToAction : post.title),
+        );
+  const durations = tileDurations(settings.duration, segments.map(() => 1));
+
+  let timestamp = 0;
+  const beats: StoryBeat[] = segments.map((segment, index) => {
+    const duration = durations[index];
+    const voiceover = truncateWords(segment, Math.floor(duration * WORDS_PER_SECOND[settings.voiceProfile]));
+    const beatKeyword = extractKeywords(segment, 1)[0] ?? keywords[0] ?? "reddit";
+    const reply = sources[index];
+    const beat: StoryBeat = {
+      timestamp,
+      duration,
+      headline: reply ? `Answer ${index}` : (beatHeadlines[index] ?? `Beat ${index + 1}`),
+      voiceover,
+      motionPrompt: `${pick(alternates.camera, template.camera, variant, index)} on a ${template.mood} scene about ${beatKeyword}, vertical 9:16 framing`,
+      captions: chunkWords(voiceover, 4).slice(0, 4),
+    };
+    if (settings.includeBroll) {
+      beat.brollPrompt = `Stock-style ${template.mood} b-roll of ${beatKeyword}, shallow depth of field`;
+    }
+    if (reply) {
+      beat.comment = { commentId: reply.id, author: reply.author, permalink: reply.permalink };
+    }
+    timestamp += duration;
+    return beat;
+  });
+
+  return {
+    id: post.id,
+    title: buildTitle(post, subject, variant),
+    sourceUrl: `https://www.reddit.com${post.permalink}`,
+    hook: buildHook(post, template, variant),
+    beats,
+    callToAction: pick(alternates.callToAction, template.callToAction, variant),
+    soundtrackPrompt: template.soundtrack,
+    thumbnailPrompt: `${pick(alternates.thumbnail, "Bold close-up reaction shot", variant)} about ${subject}, ${template.mood} lighting, large 3-word text overlay`,
+    keywords,
+  };
+}
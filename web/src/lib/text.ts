@@ -0,0 +1,55 @@
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be been but by can could did do does for from had has have he her " +
+    "him his how i if in into is it its just me my no not of on or our out she so some " +
+    "than that the their them then there they this to too up us was we were what when " +
+    "where which who why will with would you your about after all also am any because " +
+    "before being both each few more most much only other over own same should such " +
+    "through under until very while again once here im dont its ive"
+  ).split(" "),
+);
+
+export function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function splitSentences(text: string) {
+  return (normalizeWhitespace(text).match(/[^.!?]+[.!?]*/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+export function countWords(text: string) {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/** Cuts text to at most `limit` words, ending on an ellipsis when shortened. */
+export function truncateWords(text: string, limit: number) {
+  const words = normalizeWhitespace(text).split(" ");
+  if (words.length <= limit) return words.join(" ");
+  return `${words.slice(0, Math.max(limit, 1)).join(" ").replace(/[,;:]$/, "")}…`;
+}
+
+export function chunkWords(text: string, size: number) {
+  const words = normalizeWhitespace(text).split(" ").filter(Boolean);
+  const chunks: string[] = [];
+  for (let index = 0; index < words.length; index += size) {
+    chunks.push(words.slice(index, index + size).join(" "));
+  }
+  return chunks;
+}
+
+/** Most frequent meaningful words, ties broken by first appearance. */
+export function extractKeywords(text: string, limit: number) {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z']{2,}/g) ?? []) {
+    const clean = word.replace(/'/g, "");
+    if (STOP_WORDS.has(clean)) continue;
+    counts.set(clean, (counts.get(clean) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
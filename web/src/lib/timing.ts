@@ -0,0 +1,51 @@
+import { countWords } from "@/lib/text";
+import type { StoryBeat, WorkflowSettings } from "@/lib/types";
+
+/** Comfortable speaking rate for each narration voice. */
+export const WORDS_PER_SECOND: Record<WorkflowSettings["voiceProfile"], number> = {
+  narrator: 2.4,
+  friendly: 2.7,
+  dramatic: 2.1,
+};
+
+/**
+ * Splits `total` whole seconds across slots in proportion to `weights`, so the
+ * parts always add up to exactly `total` and every slot gets at least 1s.
+ */
+export function tileDurations(total: number, weights: number[]) {
+  if (weights.length === 0) return [];
+  const safeWeights = weights.map((weight) => Math.max(weight, 0.0001));
+  const sum = safeWeights.reduce((acc, weight) => acc + weight, 0);
+  const spare = Math.max(total - weights.length, 0);
+  const exact = safeWeights.map((weight) => (weight / sum) * spare);
+  const parts = exact.map((value) => 1 + Math.floor(value));
+  let remaining = total - parts.reduce((acc, part) => acc + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    parts[index] += 1;
+    remaining -= 1;
+  }
+
+  return parts;
+}
+
+/** Re-times beats in proportion to their spoken word counts, keeping the total fixed. */
+export function retimeBeats<T extends Pick<StoryBeat, "voiceover" | "timestamp" | "duration">>(
+  beats: T[],
+  total: number,
+) {
+  const durations = tileDurations(
+    total,
+    beats.map((beat) => Math.max(countWords(beat.voiceover), 1)),
+  );
+  let timestamp = 0;
+  return beats.map((beat, index) => {
+    const retimed = { ...beat, timestamp, duration: durations[index] };
+    timestamp += durations[index];
+    return retimed;
+  });
+}
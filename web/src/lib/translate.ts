@@ -0,0 +1,251 @@
+import { toHashtag } from "@/lib/platforms";
+import { voiceoverBudget } from "@/lib/story-validation";
+import { countWords } from "@/lib/text";
+import { retimeBeats } from "@/lib/timing";
+import type {
+  BeatTranslation,
+  Locale,
+  LocalizedNotes,
+  Story,
+  StoryTranslation,
+  WorkflowSettings,
+} from "@/lib/types";
+
+type TimingSettings = Pick<WorkflowSettings, "duration" | "voiceProfile">;
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  es: "Español",
+  de: "Deutsch",
+  fr: "Français",
+  pt: "Português",
+};
+
+export const LOCALES = Object.keys(LOCALE_LABELS) as [Locale, ...Locale[]];
+
+export class TranslationUnavailableError extends Error {}
+
+export class TranslationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+/** Rate limits, server errors and dropped connections are worth retrying; bad keys or input are not. */
+export function isTransientTranslationFailure(error: unknown) {
+  if (error instanceof TranslationUnavailableError) return false;
+  if (error instanceof TranslationError) return error.status === 429 || error.status >= 500;
+  return true;
+}
+
+type Translator = {
+  name: string;
+  /** Translates English texts, answering in the same order. */
+  translate(texts: string[], locale: Locale): Promise<string[]>;
+};
+
+/** DeepL wants upper-case targets and a regional variant for Portuguese. */
+const deeplTargets: Record<Locale, string> = { es: "ES", de: "DE", fr: "FR", pt: "PT-BR" };
+
+/** Both engines accept batches; DeepL caps a request at 50 texts. */
+const BATCH_SIZE = 50;
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new TranslationError(
+      `Translation request failed with ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+      res.status,
+    );
+  }
+  return res.json();
+}
+
+const engines: Record<string, () => Translator> = {
+  deepl: () => {
+    const key = process.env.DEEPL_API_KEY;
+    if (!key) throw new TranslationUnavailableError("Set DEEPL_API_KEY to translate with DeepL.");
+    // Free-tier keys end in ":fx" and live on a separate host.
+    const base =
+      process.env.DEEPL_API_URL ??
+      (key.endsWith(":fx") ? "https://api-free.deepl.com" : "https://api.deepl.com");
+    return {
+      name: "deepl",
+      async translate(texts, locale) {
+        const json = await postJson(
+          `${base}/v2/translate`,
+          { text: texts, source_lang: "EN", target_lang: deeplTargets[locale] },
+          { Authorization: `DeepL-Auth-Key ${key}` },
+        );
+        return (json.translations ?? []).map((item: { text: string }) => item.text);
+      },
+    };
+  },
+  libretranslate: () => {
+    const base = process.env.LIBRETRANSLATE_URL;
+    if (!base) {
+      throw new TranslationUnavailableError("Set LIBRETRANSLATE_URL to a LibreTranslate server.");
+    }
+    return {
+      name: "libretranslate",
+      async translate(texts, locale) {
+        const json = await postJson(`${base.replace(/\/$/, "")}/translate`, {
+          q: texts,
+          source: "en",
+          target: locale,
+          format: "text",
+          api_key: process.env.LIBRETRANSLATE_API_KEY,
+        });
+        return Array.isArray(json.translatedText) ? json.translatedText : [];
+      },
+    };
+  },
+};
+
+/**
+ * Picks the engine named by TRANSLATE_ENGINE, or whichever one has
+ * credentials configured, DeepL first.
+ */
+function resolveTranslator() {
+  const name =
+    process.env.TRANSLATE_ENGINE ??
+    (process.env.DEEPL_API_KEY ? "deepl" : process.env.LIBRETRANSLATE_URL ? "libretranslate" : null);
+  if (!name) {
+    throw new TranslationUnavailableError(
+      "No translation engine is configured. Set DEEPL_API_KEY or LIBRETRANSLATE_URL.",
+    );
+  }
+  const engine = engines[name];
+  if (!engine) {
+    throw new TranslationUnavailableError(
+      `Unknown TRANSLATE_ENGINE "${name}". Expected one of: ${Object.keys(engines).join(", ")}.`,
+    );
+  }
+  return engine();
+}
+
+async function translateTexts(texts: string[], locale: Locale) {
+  const translator = resolveTranslator();
+  const results: string[] = [];
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    const batch = texts.slice(start, start + BATCH_SIZE);
+    const translated = await translator.translate(batch, locale);
+    if (translated.length !== batch.length) {
+      throw new TranslationError(
+        `${translator.name} returned ${translated.length} of ${batch.length} translations.`,
+        502,
+      );
+    }
+    results.push(...translated);
+  }
+  return results;
+}
+
+function findOverruns(beats: BeatTranslation[], settings: TimingSettings) {
+  return beats.flatMap((beat, index) => {
+    const budget = voiceoverBudget(beat.duration, settings);
+    return countWords(beat.voiceover) > budget
+      ? [`beats.${index}.voiceover: over the ${budget}-word budget`]
+      : [];
+  });
+}
+
+/**
+ * Keeps the English beat timing when the translation fits it. Translations
+ * usually run longer, so when a beat overruns its window the beats are
+ * re-timed by word count within the same total; whatever still overruns is
+ * reported for an editor to shorten.
+ */
+export function fitTranslation(beats: BeatTranslation[], settings: TimingSettings) {
+  const overruns = findOverruns(beats, settings);
+  if (overruns.length === 0) return { beats, retimed: false, overruns };
+
+  const total = beats.reduce((acc, beat) => acc + beat.duration, 0);
+  const retimed = retimeBeats(beats, total);
+  const remaining = findOverruns(retimed, settings);
+  return remaining.length < overruns.length
+    ? { beats: retimed, retimed: true, overruns: remaining }
+    : { beats, retimed: false, overruns };
+}
+
+/** Translates everything a viewer hears or reads in one request per locale. */
+export async function translateStory(
+  story: Story,
+  locale: Locale,
+  settings: TimingSettings,
+): Promise<StoryTranslation> {
+  const texts = [
+    story.hook,
+    story.callToAction,
+    ...story.beats.flatMap((beat) => [beat.voiceover, ...beat.captions]),
+  ];
+  const translated = await translateTexts(texts, locale);
+  let cursor = 2;
+  const beats = story.beats.map((beat) => {
+    const voiceover = translated[cursor];
+    const captions = translated.slice(cursor + 1, cursor + 1 + beat.captions.length);
+    cursor += 1 + beat.captions.length;
+    return { timestamp: beat.timestamp, duration: beat.duration, voiceover, captions };
+  });
+
+  return {
+    locale,
+    hook: translated[0],
+    callToAction: translated[1],
+    ...fitTranslation(beats, settings),
+  };
+}
+
+/** Hashtags are translated as words ("#AskReddit" as "ask reddit") and joined back up. */
+export async function translateNotes(
+  notes: { uploadCopy: string; hashtags: string[] },
+  locale: Locale,
+): Promise<LocalizedNotes> {
+  const tagWords = notes.hashtags.map((tag) =>
+    tag.replace(/^#/, "").replace(/([a-z])([A-Z])/g, "$1 $2"),
+  );
+  const [uploadCopy, ...tags] = await translateTexts([notes.uploadCopy, ...tagWords], locale);
+  const hashtags = tags
+    .map((tag) => toHashtag(tag.replace(/\s+(\p{L})/gu, (_, letter: string) => letter.toUpperCase())))
+    .filter((tag): tag is string => tag !== null);
+  return { locale, uploadCopy, hashtags: [...new Set(hashtags)] };
+}
+
+/** The story as it reads in `locale`, for display and exports; English when there is no translation. */
+export function localizeStory(story: Story, locale?: Locale | null): Story {
+  const translation = story.translations?.find((item) => item.locale === locale);
+  if (!translation) return story;
+  return {
+    ...story,
+    hook: translation.hook,
+    callToAction: translation.callToAction,
+    beats: story.beats.map((beat, index) => ({ ...beat, ...translation.beats[index] })),
+  };
+}
+
+function spokenText(story: Story) {
+  return JSON.stringify([
+    story.hook,
+    story.callToAction,
+    story.beats.map((beat) => [beat.voiceover, beat.captions]),
+  ]);
+}
+
+/** Keeps translations on an edited story, marking them stale if the English text changed. */
+export function carryTranslations(previous: Story, next: Story): Story {
+  const translations = previous.translations;
+  if (!translations?.length) return next;
+  const changed = spokenText(previous) !== spokenText(next);
+  return {
+    ...next,
+    translations: changed ? translations.map((item) => ({ ...item, stale: true })) : translations,
+  };
+}
@@ -0,0 +1,174 @@
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { dataPath, isSafeId } from "@/lib/store";
+import { validateStory } from "@/lib/story-validation";
+import type { Story, StoryAudio, WorkflowSettings } from "@/lib/types";
+import { readWav, silence, wavDuration, writeWav, type Wav } from "@/lib/wav";
+
+type VoiceProfile = WorkflowSettings["voiceProfile"];
+
+export class TtsUnavailableError extends Error {}
+
+/** Pause left after each beat so consecutive lines don't run together. */
+const BEAT_GAP_SECONDS = 0.25;
+
+const espeakVoices: Record<VoiceProfile, string[]> = {
+  narrator: ["-v", "en-us", "-s", "160", "-p", "40"],
+  friendly: ["-v", "en-us+f3", "-s", "180", "-p", "55"],
+  dramatic: ["-v", "en-gb", "-s", "140", "-p", "30"],
+};
+
+type TtsEngine = {
+  name: string;
+  synthesize(text: string, voice: VoiceProfile, outFile: string): Promise<void>;
+};
+
+function run(binary: string, args: string[], input?: string) {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["pipe", "ignore", "pipe"] });
+    let stderr = "";
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new TtsUnavailableError(`TTS binary "${binary}" is not installed or not on PATH.`)
+          : error,
+      );
+    });
+    child.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+    });
+    child.stdin.end(input ?? "");
+  });
+}
+
+const engines: Record<string, () => TtsEngine> = {
+  "espeak-ng": () => {
+    const binary = process.env.TTS_BINARY ?? "espeak-ng";
+    return {
+      name: "espeak-ng",
+      synthesize: (text, voice, outFile) =>
+        // Text goes in on stdin, so a line starting with "-" is never read as an option.
+        run(binary, [...espeakVoices[voice], "-w", outFile, "--stdin"], text),
+    };
+  },
+  piper: () => {
+    const binary = process.env.TTS_BINARY ?? "piper";
+    return {
+      name: "piper",
+      synthesize: (text, voice, outFile) => {
+        const model =
+          process.env[`PIPER_MODEL_${voice.toUpperCase()}`] ?? process.env.PIPER_MODEL;
+        if (!model) {
+          throw new TtsUnavailableError(
+            `Set PIPER_MODEL or PIPER_MODEL_${voice.toUpperCase()} to a Piper voice model.`,
+          );
+        }
+        return run(binary, ["--model", model, "--output_file", outFile], text);
+      },
+    };
+  },
+};
+
+function resolveEngine() {
+  const name = process.env.TTS_ENGINE ?? "espeak-ng";
+  const engine = engines[name];
+  if (!engine) {
+    throw new TtsUnavailableError(
+      `Unknown TTS_ENGINE "${name}". Expected one of: ${Object.keys(engines).join(", ")}.`,
+    );
+  }
+  return engine();
+}
+
+export function storyAudioFile(runId: string, storyId: string) {
+  if (!isSafeId(runId) || !isSafeId(storyId)) return null;
+  return dataPath("audio", runId, `${storyId}.wav`);
+}
+
+/**
+ * Speaks every beat with the local TTS engine, then re-times the beats to the
+ * measured clip lengths so captions follow the real speech. The clips are
+ * joined (with silence padding each beat to its new window) into one WAV.
+ */
+export async function renderStoryAudio(runId: string, story: Story, voice: VoiceProfile) {
+  const outFile = storyAudioFile(runId, story.id);
+  if (!outFile) throw new Error("Invalid run or story id");
+
+  const engine = resolveEngine();
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "shorts-tts-"));
+
+  try {
+    const clips: Wav[] = [];
+    for (const [index, beat] of story.beats.entries()) {
+      const clipFile = path.join(workDir, `beat-${index}.wav`);
+      await engine.synthesize(beat.voiceover, voice, clipFile);
+      clips.push(readWav(await fs.readFile(clipFile)));
+    }
+
+    const format = clips[0]?.format;
+    if (!format) throw new Error("Story has no beats to narrate");
+
+    let timestamp = 0;
+    const parts: Buffer[] = [];
+    const beats = story.beats.map((beat, index) => {
+      const clip = clips[index];
+      const duration = Math.ceil((wavDuration(clip) + BEAT_GAP_SECONDS) * 10) / 10;
+      parts.push(clip.data, silence(format, duration - wavDuration(clip)));
+      const aligned = { ...beat, timestamp, duration };
+      timestamp = Math.round((timestamp + duration) * 10) / 10;
+      return aligned;
+    });
+
+    await fs.mkdir(path.dirname(outFile), { recursive: true });
+    await fs.writeFile(outFile, writeWav(format, Buffer.concat(parts)));
+
+    const audio: StoryAudio = {
+      url: `/api/runs/${runId}/audio?story=${encodeURIComponent(story.id)}`,
+      engine: engine.name,
+      duration: timestamp,
+      renderedAt: new Date().toISOString(),
+    };
+    return { ...story, beats, audio };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Whether two versions of a story read the same script, so one's audio fits the other. */
+export function sameVoiceovers(a: Story, b: Story) {
+  return (
+    a.beats.length === b.beats.length &&
+    a.beats.every((beat, index) => beat.voiceover === b.beats[index].voiceover)
+  );
+}
+
+/**
+ * Carries freshly rendered audio and its beat timings onto the story as it is
+ * stored now, and re-validates the new timings against the audio's length.
+ * Returns null when a beat's text changed while the audio was rendering, since
+ * the audio no longer matches the script.
+ */
+export function applyStoryAudio(
+  current: Story,
+  rendered: Story,
+  settings: Pick<WorkflowSettings, "duration" | "voiceProfile">,
+): Story | null {
+  if (!sameVoiceovers(current, rendered)) return null;
+
+  const story: Story = {
+    ...current,
+    beats: current.beats.map((beat, index) => ({
+      ...beat,
+      timestamp: rendered.beats[index].timestamp,
+      duration: rendered.beats[index].duration,
+    })),
+    audio: rendered.audio,
+  };
+  return { ...story, validation: validateStory(story, settings) };
+}
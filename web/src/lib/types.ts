@@ -0,0 +1,434 @@
+export type PostFilters = {
+  excludeNsfw: boolean;
+  excludeSpoilers: boolean;
+  excludeStickied: boolean;
+  minScore: number;
+  minComments: number;
+  minLength: number;
+  maxLength: number | null;
+  /** Also reject bodies outside what a story of the requested duration can narrate. */
+  fitDuration: boolean;
+  allowKeywords: string[];
+  denyKeywords: string[];
+};
+
+export type RankingStrategy = "score" | "comments" | "engagement" | "duration-fit";
+
+export type SubredditSource = {
+  subreddit: string;
+  weight: number;
+};
+
+export type StoryProviderId = "llm" | "template";
+
+export type WorkflowSettings = {
+  subreddit: string;
+  sources: SubredditSource[];
+  timeframe: "day" | "week" | "month" | "year" | "all";
+  storyCount: number;
+  duration: number;
+  voiceProfile: "narrator" | "friendly" | "dramatic";
+  includeBroll: boolean;
+  allowRepeats: boolean;
+  filters: PostFilters;
+  ranking: RankingStrategy;
+  comments: CommentOptions;
+  platforms: Platform[];
+  compliance: ComplianceOptions;
+  /** Languages to translate each package into; scripts are written in English. */
+  locales: Locale[];
+  /** Alternative hook/title/thumbnail drafts per story, on top of the original. */
+  hookVariants: number;
+  provider?: StoryProviderId;
+};
+
+/** Each part is 0-1; `total` is their weighted sum on a 0-100 scale. */
+export type VariantScore = {
+  total: number;
+  length: number;
+  curiosity: number;
+  question: number;
+  readingTime: number;
+};
+
+/** One candidate opening for a story: what viewers see and hear first. */
+export type StoryVariant = {
+  id: string;
+  hook: string;
+  title: string;
+  thumbnailPrompt: string;
+  score: VariantScore;
+  /** Why the score is what it is, in plain words. */
+  notes: string[];
+};
+
+/** The parts of a story a variant replaces. */
+export type StoryOpening = Pick<StoryVariant, "hook" | "title" | "thumbnailPrompt">;
+
+/** Which variant is primary, kept so performance can later be compared across variants. */
+export type VariantChoice = {
+  variantId: string;
+  /** 1 = the highest-scored variant. */
+  rank: number;
+  score: number;
+  chosenBy: "generator" | "editor";
+  chosenAt: string;
+};
+
+export type Locale = "es" | "de" | "fr" | "pt";
+
+/** A beat's spoken text in another language; headline and prompts stay in English. */
+export type BeatTranslation = {
+  timestamp: number;
+  duration: number;
+  voiceover: string;
+  captions: string[];
+};
+
+export type StoryTranslation = {
+  locale: Locale;
+  hook: string;
+  callToAction: string;
+  beats: BeatTranslation[];
+  /** The source timing did not fit the translation, so beats were re-timed by word count. */
+  retimed: boolean;
+  /** Beats that still run longer than their window at the voice's speaking rate. */
+  overruns: string[];
+  /** The English script was edited after translating; retranslate before publishing. */
+  stale?: boolean;
+};
+
+export type LocalizedNotes = {
+  locale: Locale;
+  uploadCopy: string;
+  hashtags: string[];
+};
+
+/** `mask` stars out profanity, `flag` warns, `block` holds the package back. */
+export type ProfanityPolicy = "allow" | "flag" | "mask" | "block";
+
+export type ComplianceOptions = {
+  profanity: ProfanityPolicy;
+};
+
+export type ComplianceFinding = {
+  kind: "username" | "email" | "phone" | "name" | "profanity" | "claim";
+  /** `redacted` findings were fixed automatically; `blocking` ones need an edit. */
+  severity: "redacted" | "warning" | "blocking";
+  field: string;
+  message: string;
+};
+
+export type StoryReview = {
+  status: "clear" | "redacted" | "warning" | "blocked";
+  findings: ComplianceFinding[];
+};
+
+export type PackageReview = {
+  ready: boolean;
+  blockedStories: number;
+  warnings: number;
+};
+
+export type Platform = "youtube" | "tiktok" | "instagram";
+
+/** Paste-ready upload copy for one story on one platform. */
+export type PlatformCopy = {
+  storyId: string;
+  platform: Platform;
+  title: string;
+  description: string;
+  hashtags: string[];
+  pinnedComment: string;
+  /** What was trimmed to fit the platform's limits. */
+  adjustments: string[];
+  violations: string[];
+};
+
+/** How many top replies to pull per post, and which to skip. */
+export type CommentOptions = {
+  count: number;
+  /** 1 = top-level replies only. */
+  depth: number;
+  minScore: number;
+  excludeBots: boolean;
+};
+
+export type RedditComment = {
+  id: string;
+  author: string;
+  body: string;
+  score: number;
+  depth: number;
+  permalink: string;
+  stickied: boolean;
+};
+
+/** The reply a beat narrates, so the UI can link to it. */
+export type BeatCitation = {
+  commentId: string;
+  author: string;
+  permalink: string;
+};
+
+export type StoryBeat = {
+  timestamp: number;
+  duration: number;
+  headline: string;
+  voiceover: string;
+  motionPrompt: string;
+  brollPrompt?: string;
+  captions: string[];
+  comment?: BeatCitation;
+};
+
+export type StoryValidation = {
+  status: "valid" | "repaired" | "flagged";
+  repairs: string[];
+  violations: string[];
+};
+
+export type StoryAudio = {
+  url: string;
+  engine: string;
+  duration: number;
+  renderedAt: string;
+};
+
+export type Story = {
+  id: string;
+  title: string;
+  sourceUrl: string;
+  hook: string;
+  beats: StoryBeat[];
+  callToAction: string;
+  soundtrackPrompt: string;
+  thumbnailPrompt: string;
+  keywords: string[];
+  provider?: StoryProviderId;
+  validation?: StoryValidation;
+  review?: StoryReview;
+  translations?: StoryTranslation[];
+  /** Ranked best first; the primary hook, title and thumbnail prompt are copied from one of them. */
+  variants?: StoryVariant[];
+  variantChoice?: VariantChoice;
+  /** Publish slot assigned by a batch run. */
+  publishAt?: string;
+  audio?: StoryAudio;
+};
+
+export type RejectedCandidate = {
+  postId: string;
+  title: string;
+  reasons: string[];
+};
+
+export type SelectionReport = {
+  candidates: number;
+  skippedDuplicates: number;
+  rejected: RejectedCandidate[];
+};
+
+export type WorkflowPayload = {
+  generatedAt: string;
+  settings: WorkflowSettings;
+  stories: Story[];
+  notes: {
+    postingChecklist: string[];
+    uploadCopy: string;
+    hashtags: string[];
+    platforms?: PlatformCopy[];
+    locales?: LocalizedNotes[];
+  };
+  selection?: SelectionReport;
+  review?: PackageReview;
+  /** Present on batch runs: the plan the stories' publish slots were drawn from. */
+  calendar?: BatchPlan;
+};
+
+/** A content calendar to fill: every day in the range gets `postsPerDay` slots at `times`. */
+export type BatchPlan = {
+  /** Inclusive calendar dates, YYYY-MM-DD. */
+  startDate: string;
+  endDate: string;
+  postsPerDay: number;
+  /** Local publish times, HH:MM, one per post of the day. */
+  times: string[];
+  /** The planner's offset from UTC, so local times become absolute slots. */
+  utcOffsetMinutes: number;
+};
+
+export type Preset = {
+  id: string;
+  name: string;
+  settings: WorkflowSettings;
+  updatedAt: string;
+};
+
+export type RenderJob = {
+  id: string;
+  runId: string;
+  storyId: string;
+  status: "queued" | "rendering" | "done" | "failed";
+  progress: number;
+  createdAt: string;
+  finishedAt?: string;
+  videoUrl?: string;
+  error?: string;
+};
+
+export type StoredRun = WorkflowPayload & { id: string; schemaVersion: number };
+
+export type RunSummary = {
+  id: string;
+  generatedAt: string;
+  settings: WorkflowSettings;
+  hooks: string[];
+};
+
+export type WorkflowStreamEvent =
+  | {
+      type: "posts-fetched";
+      fetched: number;
+      selected: number;
+      skippedDuplicates: number;
+    }
+  | { type: "story-scripted"; index: number; story: Story }
+  | { type: "story-failed"; index: number; title: string; message: string }
+  | {
+      type: "stage-retry";
+      stage: WorkflowStage;
+      attempt: number;
+      delayMs: number;
+      message: string;
+    }
+  | { type: "translation-failed"; locale: Locale; message: string }
+  | { type: "package-assembled"; payload: StoredRun }
+  | { type: "error"; status: number; message: string };
+
+export type WorkflowStage = "reddit" | "model" | "translate";
+
+export type WorkflowJob = {
+  id: string;
+  status: "queued" | "running" | "done" | "failed" | "cancelled";
+  settings: WorkflowSettings;
+  /** Every event the pipeline emitted, so a reloaded client can replay them. */
+  events: WorkflowStreamEvent[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  runId?: string;
+  error?: string;
+  batch?: BatchPlan;
+};
+
+export type ScheduleRun = {
+  jobId: string;
+  startedAt: string;
+  finishedAt: string;
+  status: "done" | "failed" | "cancelled";
+  runId?: string;
+  error?: string;
+};
+
+export type Schedule = {
+  id: string;
+  name: string;
+  /** Five-field cron expression in the server's local time. */
+  cron: string;
+  settings: WorkflowSettings;
+  paused: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null;
+  /** Most recent first, capped by the scheduler. */
+  runs: ScheduleRun[];
+};
+
+export type ApiKeyQuotas = {
+  runsPerDay: number;
+  storiesPerRun: number;
+};
+
+/** An API key as listed to admins; the secret itself is only shown once, on creation. */
+export type ApiKey = {
+  id: string;
+  name: string;
+  /** First characters of the secret, so admins can tell keys apart. */
+  prefix: string;
+  quotas: ApiKeyQuotas;
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+};
+
+export type UsageEntry = {
+  id: string;
+  route: "workflow" | "jobs" | "batch" | "regenerate" | "translate" | "schedule";
+  status: "started" | "done" | "failed";
+  startedAt: string;
+  finishedAt?: string;
+  runId?: string;
+  stories: number;
+  /** Estimated from the size of the generated scripts; the model client does not report usage. */
+  tokens: number;
+};
+
+export type UsageSummary = {
+  runsToday: number;
+  storiesToday: number;
+  tokensToday: number;
+  /** When today's run count resets (UTC midnight). */
+  resetsAt: string;
+};
+
+export type AnalyticsPlatform = "youtube" | "tiktok";
+
+/** One uploaded video's numbers from a channel analytics export, matched to the story it came from. */
+export type PerformanceRecord = {
+  platform: AnalyticsPlatform;
+  runId: string;
+  storyId: string;
+  /** The platform's id or link for the video, when the export has one. */
+  videoId?: string;
+  videoTitle: string;
+  publishedAt?: string;
+  views: number;
+  likes: number;
+  /** Average share of the video watched, 0-100; null when the export has no watch data. */
+  retention: number | null;
+  averageViewSeconds: number | null;
+  /** Where the story came from, which may differ from the run's primary subreddit. */
+  subreddit: string;
+  hook: string;
+  keywords: string[];
+  settings: WorkflowSettings;
+  variantChoice?: VariantChoice;
+  importedAt: string;
+};
+
+export type PerformanceDimension = "subreddit" | "timeframe" | "voiceProfile" | "duration";
+
+export type PerformanceGroup = {
+  key: string;
+  videos: number;
+  views: number;
+  averageViews: number;
+  averageRetention: number | null;
+  /** Likes per view, 0-1. */
+  likeRate: number | null;
+};
+
+export type PerformanceReport = {
+  videos: number;
+  breakdowns: Record<PerformanceDimension, PerformanceGroup[]>;
+  topVideos: PerformanceRecord[];
+};
+
+export type AnalyticsImportResult = {
+  platform: AnalyticsPlatform;
+  rows: number;
+  matched: number;
+  /** Videos that matched no stored story, by row of the export (the header is row 1). */
+  unmatched: { row: number; title: string }[];
+};
@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+import { dataPath, isSafeId, readJsonFile, writeJsonFile } from "@/lib/store";
+import type { StoredRun, UsageEntry, UsageSummary } from "@/lib/types";
+
+/** Entries kept per key; enough for the daily quota and a few weeks of history. */
+const MAX_ENTRIES = 1000;
+
+type UsageLedger = { keyId: string; entries: UsageEntry[] };
+
+/** What a metered call produced: a whole run, or the one story a story route rewrote. */
+export type UsageResult = Pick<StoredRun, "id" | "stories">;
+
+const usageFile = (keyId: string) => dataPath("usage", `${keyId}.json`);
+
+/** Per-key write chains so concurrent requests cannot both take the last run of the day. */
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function mutateLedger<T>(keyId: string, change: (ledger: UsageLedger) => T) {
+  const previous = pendingWrites.get(keyId) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const ledger = (await readJsonFile<UsageLedger>(usageFile(keyId))) ?? { keyId, entries: [] };
+    const result = change(ledger);
+    ledger.entries = ledger.entries.slice(-MAX_ENTRIES);
+    await writeJsonFile(usageFile(keyId), ledger);
+    return result;
+  });
+  pendingWrites.set(keyId, next.catch(() => undefined));
+  return next;
+}
+
+function startOfUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function summarize(entries: UsageEntry[], now: Date): UsageSummary {
+  const dayStart = startOfUtcDay(now);
+  const today = entries.filter((entry) => new Date(entry.startedAt) >= dayStart);
+  return {
+    runsToday: today.length,
+    storiesToday: today.reduce((total, entry) => total + entry.stories, 0),
+    tokensToday: today.reduce((total, entry) => total + entry.tokens, 0),
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Rough token count for a run: about four characters per token of generated
+ * script, plus one extra call per drafted variant, which reads the story's
+ * script and writes a new opening.
+ */
+export function estimateRunTokens(run: Pick<StoredRun, "stories">) {
+  const variantCalls = run.stories.reduce((total, story) => {
+    const drafted = (story.variants ?? []).filter((variant) => variant.id !== "v0");
+    const prompt = story.beats.reduce((chars, beat) => chars + beat.voiceover.length, 0);
+    return (
+      total +
+      drafted.reduce(
+        (chars, variant) =>
+          chars + prompt + variant.hook.length + variant.title.length + variant.thumbnailPrompt.length,
+        0,
+      )
+    );
+  }, 0);
+  return Math.ceil((JSON.stringify(run.stories).length + variantCalls) / 4);
+}
+
+export async function getUsage(keyId: string, now = new Date()) {
+  if (!isSafeId(keyId)) return null;
+  const ledger = await readJsonFile<UsageLedger>(usageFile(keyId));
+  const entries = ledger?.entries ?? [];
+  return { summary: summarize(entries, now), entries: entries.slice(-50).reverse() };
+}
+
+/**
+ * Records the start of a run if the key has runs left today. Every started run
+ * counts toward the quota, including ones that later fail, since they spend
+ * model calls too.
+ */
+export function reserveRun(keyId: string, route: UsageEntry["route"], runsPerDay: number) {
+  return mutateLedger(keyId, (ledger) => {
+    const now = new Date();
+    const before = summarize(ledger.entries, now);
+    if (before.runsToday >= runsPerDay) return { entry: null, summary: before };
+
+    const entry: UsageEntry = {
+      id: randomUUID(),
+      route,
+      status: "started",
+      startedAt: now.toISOString(),
+      stories: 0,
+      tokens: 0,
+    };
+    ledger.entries.push(entry);
+    return { entry, summary: summarize(ledger.entries, now) };
+  });
+}
+
+export function finishRunUsage(keyId: string, entryId: string, run: UsageResult | null) {
+  return mutateLedger(keyId, (ledger) => {
+    ledger.entries = ledger.entries.map((entry) =>
+      entry.id === entryId
+        ? {
+            ...entry,
+            status: run ? "done" : "failed",
+            finishedAt: new Date().toISOString(),
+            runId: run?.id,
+            stories: run?.stories.length ?? 0,
+            tokens: run ? estimateRunTokens(run) : 0,
+          }
+        : entry,
+    );
+  });
+}
@@ -0,0 +1,187 @@
+import { reviewStory } from "@/lib/compliance";
+import { countWords } from "@/lib/text";
+import { WORDS_PER_SECOND } from "@/lib/timing";
+import type { Story, StoryOpening, StoryVariant, VariantScore, WorkflowSettings } from "@/lib/types";
+
+type ScoringSettings = Pick<WorkflowSettings, "voiceProfile">;
+
+export const MAX_HOOK_VARIANTS = 5;
+
+/** Viewers decide whether to keep watching within the first couple of seconds. */
+const OPENING_SECONDS = 3;
+
+const HOOK_WORDS = { min: 6, max: 14 };
+/** Shorts titles are cut off in the feed past about 60 characters. */
+const TITLE_CHARS = { min: 20, max: 60 };
+
+const CURIOSITY_PATTERNS = [
+  /\bsecret\b/i,
+  /\bnobody\b|\bno one\b/i,
+  /\bnever\b/i,
+  /\bwhy\b/i,
+  /\buntil\b/i,
+  /\btwist\b/i,
+  /\btruth\b/i,
+  /\bfinally\b/i,
+  /\bturn(?:s|ed) out\b/i,
+  /\bwait\b/i,
+  /\bwrong\b/i,
+  /\b(?:didn't|did not|won't|wouldn't) expect/i,
+  /\bwhat happened\b/i,
+  /\bthe reason\b/i,
+  /\bthis is how\b/i,
+];
+
+const QUESTION_OPENERS = /^(?:why|how|what|who|would|should|could|have you|did|do you|is it|am i)\b/i;
+
+const WEIGHTS: Omit<VariantScore, "total"> = {
+  length: 0.25,
+  curiosity: 0.25,
+  question: 0.15,
+  readingTime: 0.35,
+};
+
+/** 1 inside the range, falling off in proportion to how far outside it the value is. */
+function rangeScore(value: number, { min, max }: { min: number; max: number }) {
+  if (value < min) return value / min;
+  if (value > max) return max / value;
+  return 1;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Scores a hook and title on things that can be judged without an audience:
+ * length, curiosity words, question form and how long the hook takes to say
+ * against the first beat it plays over. Deterministic, so a ranking can be
+ * compared with performance later.
+ */
+export function scoreVariant(
+  variant: Pick<StoryVariant, "hook" | "title">,
+  firstBeatDuration: number,
+  settings: ScoringSettings,
+) {
+  const notes: string[] = [];
+  const words = countWords(variant.hook);
+
+  const length =
+    (rangeScore(words, HOOK_WORDS) + rangeScore(variant.title.length, TITLE_CHARS)) / 2;
+  if (words > HOOK_WORDS.max) {
+    notes.push(`Hook is ${words} words; ${HOOK_WORDS.max} or fewer lands faster.`);
+  }
+  if (words < HOOK_WORDS.min) notes.push(`Hook is only ${words} words.`);
+  if (variant.title.length > TITLE_CHARS.max) {
+    notes.push(`Title is ${variant.title.length} characters and will be cut off in the feed.`);
+  }
+
+  const text = `${variant.hook} ${variant.title}`;
+  const hits = CURIOSITY_PATTERNS.filter((pattern) => pattern.test(text));
+  const curiosity = hits.length === 0 ? 0 : hits.length === 1 ? 0.7 : 1;
+  if (hits.length === 0) notes.push("No curiosity words.");
+
+  const hook = variant.hook.trim();
+  const question = hook.endsWith("?") ? 1 : QUESTION_OPENERS.test(hook) ? 0.7 : 0;
+
+  const seconds = words / WORDS_PER_SECOND[settings.voiceProfile];
+  const readingTime =
+    seconds <= OPENING_SECONDS
+      ? 1
+      : seconds <= firstBeatDuration
+        ? 0.6
+        : 0.6 * (firstBeatDuration / seconds);
+  if (seconds > OPENING_SECONDS) {
+    notes.push(
+      seconds > firstBeatDuration
+        ? `Takes ${seconds.toFixed(1)}s to say, longer than the ${firstBeatDuration}s first beat.`
+        : `Takes ${seconds.toFixed(1)}s to say; the first ${OPENING_SECONDS}s decide the swipe.`,
+    );
+  }
+
+  const parts = { length, curiosity, question, readingTime };
+  const total = Math.round(
+    100 *
+      (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).reduce(
+        (acc, key) => acc + parts[key] * WEIGHTS[key],
+        0,
+      ),
+  );
+  return {
+    score: {
+      total,
+      length: round(length),
+      curiosity: round(curiosity),
+      question: round(question),
+      readingTime: round(readingTime),
+    },
+    notes,
+  };
+}
+
+/**
+ * Ranks the story's own opening against drafted alternatives. Drafts pass
+ * the same compliance review as the story, with the same known names, so no
+ * variant reintroduces what was redacted. The original stays primary until an
+ * editor promotes another variant.
+ */
+export function attachVariants(
+  story: Story,
+  drafts: StoryOpening[],
+  settings: Pick<WorkflowSettings, "voiceProfile" | "compliance">,
+  knownNames: string[],
+): Story {
+  const firstBeat = story.beats[0]?.duration ?? OPENING_SECONDS;
+  const seen = new Set<string>();
+  const candidates = [
+    story,
+    ...drafts.map((draft) =>
+      reviewStory(
+        { ...story, hook: draft.hook, title: draft.title, thumbnailPrompt: draft.thumbnailPrompt },
+        settings.compliance,
+        knownNames,
+      ),
+    ),
+  ];
+
+  const variants = candidates
+    .map((candidate, index) => ({
+      id: `v${index}`,
+      hook: candidate.hook,
+      title: candidate.title,
+      thumbnailPrompt: candidate.thumbnailPrompt,
+      ...scoreVariant(candidate, firstBeat, settings),
+    }))
+    .filter((variant) => {
+      const key = `${variant.hook}\n${variant.title}`.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.score.total - a.score.total);
+
+  return choose({ ...story, variants }, "v0", "generator");
+}
+
+function choose(story: Story, variantId: string, chosenBy: "generator" | "editor"): Story {
+  const variants = story.variants ?? [];
+  const index = variants.findIndex((variant) => variant.id === variantId);
+  const variant = variants[index];
+  if (!variant) throw new RangeError(`Story has no variant ${variantId}.`);
+  return {
+    ...story,
+    hook: variant.hook,
+    title: variant.title,
+    thumbnailPrompt: variant.thumbnailPrompt,
+    variantChoice: {
+      variantId,
+      rank: index + 1,
+      score: variant.score.total,
+      chosenBy,
+      chosenAt: new Date().toISOString(),
+    },
+  };
+}
+
+/** Makes a variant the story's primary hook, title and thumbnail prompt. */
+export function promoteVariant(story: Story, variantId: string) {
+  return choose(story, variantId, "editor");
+}
@@ -0,0 +1,73 @@
+export type WavFormat = {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+};
+
+export type Wav = { format: WavFormat; data: Buffer };
+
+/** Reads a RIFF/WAVE buffer, tolerating the bogus sizes streaming encoders write. */
+export function readWav(buffer: Buffer): Wav {
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        byteRate: buffer.readUInt32LE(body + 8),
+        blockAlign: buffer.readUInt16LE(body + 12),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === "data") {
+      if (!format) throw new Error("WAV data chunk precedes its format chunk");
+      const end = Math.min(body + size, buffer.length);
+      const aligned = end - ((end - body) % format.blockAlign);
+      return { format, data: buffer.subarray(body, aligned) };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+export function wavDuration({ format, data }: Wav) {
+  return data.length / format.byteRate;
+}
+
+export function silence(format: WavFormat, seconds: number) {
+  const frames = Math.max(Math.round(seconds * format.sampleRate), 0);
+  return Buffer.alloc(frames * format.blockAlign);
+}
+
+export function writeWav(format: WavFormat, data: Buffer) {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format.audioFormat, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.byteRate, 28);
+  header.writeUInt16LE(format.blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
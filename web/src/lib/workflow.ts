@@ -0,0 +1,58 @@
+import { toHashtag } from "@/lib/platforms";
+import type { RedditPost } from "@/lib/reddit";
+import type { Story, WorkflowPayload, WorkflowSettings } from "@/lib/types";
+
+const MAX_HASHTAGS = 8;
+
+function collectHashtags(stories: Story[], posts: RedditPost[]) {
+  const tags = new Set<string>();
+  const candidates = [
+    ...posts.map((post) => post.subreddit),
+    ...stories.flatMap((story) => story.keywords),
+    "storytime",
+    "reddit",
+  ];
+  for (const candidate of candidates) {
+    const tag = toHashtag(candidate)?.toLowerCase();
+    if (tag) tags.add(tag);
+    if (tags.size === MAX_HASHTAGS) break;
+  }
+  return [...tags];
+}
+
+function postingChecklist(stories: Story[], settings: WorkflowSettings) {
+  return [
+    `Render ${stories.length} vertical ${settings.duration}s video${stories.length === 1 ? "" : "s"} at 1080x1920.`,
+    "Burn in the captions and keep them clear of the platform's UI overlays.",
+    ...(settings.includeBroll ? ["Cut to the b-roll suggested for each beat."] : []),
+    "Record or generate the voiceover from the beat scripts.",
+    "Credit the source subreddit in the description.",
+    "Pin a comment linking the original thread.",
+  ];
+}
+
+/**
+ * Wraps scripted stories in the package handed to the client: the settings
+ * they were made with, a posting checklist, upload copy and hashtags.
+ */
+export function assembleWorkflowResponse(
+  stories: Story[],
+  settings: WorkflowSettings,
+  posts: RedditPost[],
+): WorkflowPayload {
+  const hashtags = collectHashtags(stories, posts);
+  const uploadCopy = [stories.map((story) => story.hook).join("\n\n"), hashtags.join(" ")]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    generatedAt: new Date().toISOString(),
+    settings,
+    stories,
+    notes: {
+      postingChecklist: postingChecklist(stories, settings),
+      uploadCopy,
+      hashtags,
+    },
+  };
+}
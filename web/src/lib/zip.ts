@@ -0,0 +1,145 @@
+import { deflateRawSync } from "node:zlib";
+
+export type ZipEntry = {
+  /** Forward-slash path inside the archive. */
+  name: string;
+  data: Buffer;
+  /** Skip deflate for data that is already compressed, like MP4. */
+  store?: boolean;
+  modifiedAt?: Date;
+};
+
+type CentralRecord = {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+const STORED = 0;
+const DEFLATED = 8;
+/** Names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+/** Without ZIP64 every size and offset must fit in 32 bits. */
+const MAX_OFFSET = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS packs local time into two 16-bit words, at two-second resolution, from 1980. */
+function dosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(record: CentralRecord) {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.compressedSize, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+}
+
+function centralDirectory(records: CentralRecord[], offset: number) {
+  const entries = records.map((record) => {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(VERSION, 6);
+    header.writeUInt16LE(UTF8_FLAG, 8);
+    header.writeUInt16LE(record.method, 10);
+    header.writeUInt16LE(record.time, 12);
+    header.writeUInt16LE(record.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42);
+    return Buffer.concat([header, record.name]);
+  });
+  const directory = Buffer.concat(entries);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([directory, end]);
+}
+
+/**
+ * Streams a ZIP archive, pulling one entry at a time so only the file being
+ * written is held in memory. Entries are deflated unless that would not make
+ * them smaller or they are marked `store`.
+ */
+export function zipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]();
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.enqueue(centralDirectory(records, offset));
+          controller.close();
+          return;
+        }
+
+        const { name, data, store, modifiedAt } = next.value;
+        const deflated = store ? null : deflateRawSync(data);
+        const body = deflated && deflated.length < data.length ? deflated : data;
+        const record: CentralRecord = {
+          name: Buffer.from(name, "utf8"),
+          method: body === data ? STORED : DEFLATED,
+          ...dosDateTime(modifiedAt ?? new Date()),
+          crc: crc32(data),
+          compressedSize: body.length,
+          size: data.length,
+          offset,
+        };
+        const header = localHeader(record);
+        offset += header.length + body.length;
+        if (offset > MAX_OFFSET) throw new Error("The archive is larger than 4 GB.");
+
+        records.push(record);
+        controller.enqueue(header);
+        controller.enqueue(body);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
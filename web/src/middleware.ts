@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  createSessionToken,
+  isAuthEnabled,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  verifySessionToken,
+} from "@/lib/session";
+
+function hasUiPassword(request: NextRequest, password: string) {
+  const header = request.headers.get("authorization");
+  if (!header?.startsWith("Basic ")) return false;
+  try {
+    const decoded = atob(header.slice("Basic ".length));
+    return decoded.slice(decoded.indexOf(":") + 1) === password;
+  } catch {
+    // Not valid base64: treat it like a wrong password.
+    return false;
+  }
+}
+
+/**
+ * Puts the UI behind basic auth when UI_PASSWORD is set, and gives browsers
+ * that passed it a signed session cookie, which the API accepts in place of an
+ * API key. Without UI_PASSWORD no session is ever issued.
+ */
+export async function middleware(request: NextRequest) {
+  const password = process.env.UI_PASSWORD;
+  if (password && !hasUiPassword(request, password)) {
+    return new NextResponse("Authentication required.", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Basic realm="Shorts workflow"' },
+    });
+  }
+
+  const response = NextResponse.next();
+  if (!password || !isAuthEnabled()) return response;
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token || !(await verifySessionToken(token))) {
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(), {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: SESSION_TTL_SECONDS,
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,60 @@
+import type { RedditPost } from "@/lib/selection";
+import type { Story, StoryOpening, WorkflowSettings } from "@/lib/types";
+
+/** Deliberately off the requested duration, so every story goes through the timing repair. */
+const BEAT_SECONDS = 10;
+const MAX_BEATS = 4;
+
+/** The llm provider folds replies into the post body after this marker. */
+const REPLIES_MARKER = "\n\nTop replies:\n\n";
+
+/**
+ * Stands in for `@/lib/ai` in tests: one story per post, scripted from the
+ * post's own sentences, ending on the top reply when there is one. No
+ * randomness and no network.
+ */
+export async function buildStoriesFromPosts(
+  posts: RedditPost[],
+  settings: Pick<WorkflowSettings, "includeBroll">,
+): Promise<Story[]> {
+  return posts.map((post) => {
+    const [body, replies = ""] = post.selftext.split(REPLIES_MARKER);
+    const topReply = replies.split("\n\n")[0].replace(/^1\. u\/\S+ \(\d+ points\): /, "");
+    const sentences = body
+      .split(/(?<=[.!?])\s+/)
+      .filter(Boolean)
+      .slice(0, topReply ? MAX_BEATS - 1 : MAX_BEATS);
+    if (topReply) sentences.push(topReply);
+
+    return {
+      id: post.id,
+      title: post.title,
+      sourceUrl: `https://www.reddit.com${post.permalink}`,
+      hook: post.title,
+      beats: sentences.map((sentence, index) => ({
+        timestamp: index * BEAT_SECONDS,
+        duration: BEAT_SECONDS,
+        headline: `Part ${index + 1}`,
+        voiceover: sentence,
+        motionPrompt: `Slow push-in on scene ${index + 1}`,
+        ...(settings.includeBroll
+          ? { brollPrompt: `Establishing shot for part ${index + 1}` }
+          : {}),
+        captions: [sentence],
+      })),
+      callToAction: "Follow for the next story.",
+      soundtrackPrompt: "Warm lo-fi piano, slow build",
+      thumbnailPrompt: `Bold text over a moody photo: ${post.title}`,
+      keywords: [post.subreddit, "storytime"],
+    };
+  });
+}
+
+/** Stands in for `draftOpening`: numbered, so every variant differs. */
+export async function draftOpening(story: Story, _settings: unknown, variant: number): Promise<StoryOpening> {
+  return {
+    hook: `Take ${variant}: nobody expected what happened next?`,
+    title: `${story.title} (take ${variant})`,
+    thumbnailPrompt: `${story.thumbnailPrompt}, take ${variant}`,
+  };
+}
@@ -0,0 +1,13 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach } from "vitest";
+
+// The store resolves its directory on import, so this has to run before any
+// test file loads it. Every test starts from an empty store.
+const dataDir = await mkdtemp(path.join(os.tmpdir(), "workflow-test-"));
+process.env.WORKFLOW_DATA_DIR = dataDir;
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,23 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const fromRoot = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  resolve: { alias: { "@": fromRoot("./src") } },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    setupFiles: ["src/test/setup.ts"],
+    // Nothing may reach the network: Reddit is replayed from the recorded
+    // fixtures and the model is replaced with src/test/fake-ai.ts.
+    env: {
+      REDDIT_FIXTURES: "replay",
+      REDDIT_FIXTURE_DIR: fromRoot("./fixtures/reddit"),
+      STORY_PROVIDER: "llm",
+      SESSION_SECRET: "",
+      WORKFLOW_RETRY_ATTEMPTS: "1",
+      WORKFLOW_RETRY_DELAY_MS: "1",
+    },
+  },
+});